@@ -1,300 +1,469 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { GameScene } from './components/GameScene';
-import { Gift, GameState, GiftType, Snowman } from './types';
+import { EditorPanel } from './components/EditorPanel';
+import { EditorSelection, EditorTool, GameMode, GameState, LevelDefinition, Vector3Tuple } from './types';
+import { getUrlSeed, randomSeed, setUrlSeed } from './utils/random';
+import { buildWorld, WorldBuild } from './utils/worldClient';
+import { createTerrain } from './utils/terrain';
+import { digVoxel } from './utils/dig';
+import { remeshVoxels } from './utils/meshing';
+import { generateGifts, generateSnowmen, snowmanDrops } from './utils/hunt';
+import { DEFAULT_LEVEL, fetchLevel, getUrlLevel } from './utils/level';
+import { GeneratedWorld } from './utils/worldGen';
+import { Terrain } from './utils/terrain';
+import { CHALLENGE_SECONDS, scoreHunt } from './utils/scoring';
+import { ResultsScreen } from './components/ResultsScreen';
+import { HintCompass } from './components/HintCompass';
+import { Minimap } from './components/Minimap';
+import { HINT_CHARGES, HINT_SECONDS, ViewInfo } from './utils/hints';
+import { HuntInput, reduceHunt } from './utils/huntReducer';
+import { CameraPose, Recording, createRecorder, readRecording } from './utils/replay';
+import { ReplayViewer } from './components/ReplayViewer';
+import { SNOWBALL_CAPACITY } from './utils/throwing';
+import { ICE_BREAK_CRACKS, isIceBroken, meltIce } from './utils/pond';
+import { initialDoors } from './utils/doors';
+import { levelObjectives, objectiveStatus } from './utils/objectives';
+import { ObjectiveList } from './components/ObjectiveList';
+import { gameEvents, diffGameEvents } from './utils/events';
+import { SessionRecorder, downloadSessionLog, recordSessions } from './utils/sessionLog';
+import { playEventSounds } from './utils/sfx';
+import { trackAchievements } from './utils/achievements';
+import { TimeOfDaySettings } from './utils/timeOfDay';
+import { WEATHER, WeatherKind, WeatherSettings } from './utils/weather';
+import { ProfileScreen } from './components/ProfileScreen';
+import { EventToasts } from './components/EventToasts';
+import { SaveData, clearSave, createSave, formatElapsed, matchesSave, readSave, restoreHunt, saveProgress, writeSave } from './utils/save';
+
+interface AppProps {
+  // Fixed seed for the hunt; falls back to ?seed= in the URL, then a random roll
+  seed?: number;
+  // Level to play; falls back to ?level=<url> in the URL, then the bundled default map
+  level?: LevelDefinition;
+  // Day/night clock; falls back to ?time= (pinned) or ?dayLength= in the URL, then the local time
+  timeOfDay?: TimeOfDaySettings;
+  // Weather; falls back to ?weather= (pinned) in the URL, then changing on its own
+  weather?: WeatherSettings;
+}
+
+const FROST_SECONDS = 2.5; // How long a snowball to the face blurs the view
+const MOVE_SAMPLE_MS = 5000; // How often the session log records where the player is
+const SAVE_INTERVAL_MS = 5000; // Progress is saved straight away; the clock and wandering snowmen at most this often
+
+// A hunt that hasn't started yet; gifts and snowmen are filled in once its world is built
+const newGameState = (seed: number, started = false, mode: GameMode = 'explore'): GameState => ({
+  started,
+  mode,
+  seed,
+  gifts: [],
+  snowmen: [],
+  snowballs: [],
+  ammo: SNOWBALL_CAPACITY,
+  foundCount: 0,
+  gameOver: false,
+  dug: [],
+  doors: [],
+  keys: [],
+  ice: { cracks: 0, origin: null },
+  quests: {},
+  elapsed: 0,
+  hintsUsed: 0,
+});
+
+const App: React.FC<AppProps> = ({ seed, level: levelProp, timeOfDay, weather }) => {
+  const [level, setLevel] = useState<LevelDefinition>(levelProp ?? DEFAULT_LEVEL);
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [editorTool, setEditorTool] = useState<EditorTool>('select');
+  const [editorSelection, setEditorSelection] = useState<EditorSelection>(null);
+  const [digging, setDigging] = useState(false);
+  const [walking, setWalking] = useState(false);
+  const [throwing, setThrowing] = useState(false);
+  // Hint radar: off unless asked for, since it gives the hunt away
+  const [hintsOn, setHintsOn] = useState(false);
+  const [view, setView] = useState<ViewInfo | null>(null);
+  const [revealedGiftId, setRevealedGiftId] = useState<number | null>(null);
+  const [minimapOn, setMinimapOn] = useState(true);
+  const [showFoundOnMap, setShowFoundOnMap] = useState(false);
+  const [flyTo, setFlyTo] = useState<{ x: number, z: number } | null>(null);
+  const [frostedAt, setFrostedAt] = useState<number | null>(null); // When a snowball last hit the camera
+  const [soundOn, setSoundOn] = useState(true);
+  const [lastRecording, setLastRecording] = useState<Recording | null>(null); // The most recent finished hunt
+  const [replay, setReplay] = useState<Recording | null>(null); // Being watched instead of played
+  const [profileOpen, setProfileOpen] = useState(false);
+  const [weatherKind, setWeatherKind] = useState<WeatherKind | null>(null); // As reported by the scene
+  const [gameState, setGameState] = useState<GameState>(() => newGameState(seed ?? getUrlSeed() ?? randomSeed()));
+
+  // Offered as "Continue" on the start screen; applied once a world for its seed and map is built
+  const [savedHunt, setSavedHunt] = useState<SaveData | null>(() => readSave());
+  const pendingSave = useRef<SaveData | null>(null);
+
+  // Load a custom map if one was linked
+  useEffect(() => {
+    const url = levelProp ? null : getUrlLevel();
+    if (!url) return;
+    fetchLevel(url)
+      .then(setLevel)
+      .catch((err: Error) => setLevelError(err.message));
+  }, [levelProp]);
+
+  // The world is generated here (not inside the scene) so the hunt can be placed on its real terrain.
+  // Generation and meshing run in a worker; the previous world stays up until the next one is ready.
+  const [build, setBuild] = useState<WorldBuild | null>(null);
+  const [buildProgress, setBuildProgress] = useState<number | null>(0); // null when idle
+  // Bumped to rebuild the same seed from scratch, since digging edits the grid in place
+  const [generation, setGeneration] = useState(0);
 
-// Constants matching VoxelAssets
-const VOXEL_SIZE = 0.25;
+  useEffect(() => {
+    setBuildProgress(0);
+    const job = buildWorld(gameState.seed, level, setBuildProgress);
+    job.promise
+      .then(result => {
+        setBuild(result);
+        setBuildProgress(null);
+      })
+      .catch((err: Error) => {
+        setLevelError(err.message);
+        setBuildProgress(null);
+      });
+    return job.cancel;
+  }, [gameState.seed, level, generation]);
 
-// Helper to get random color
-const getRandomColor = () => {
-  const colors = ['#ff0000', '#00ff00', '#3333ff', '#ffd700', '#ff00ff', '#00ffff', '#ff6b00'];
-  return colors[Math.floor(Math.random() * colors.length)];
-};
+  // Digs swap in re-meshed chunks but keep the same world, so the hunt isn't regenerated
+  const world = build?.world ?? null;
+  const terrain = useMemo(() => world ? createTerrain(world.grid) : null, [world]);
 
-// Helper to get random gift type
-const getRandomType = (): GiftType => {
-  const types: GiftType[] = ['box', 'box', 'cane', 'ornament', 'ornament', 'stocking', 'gingerbread', 'star'];
-  return types[Math.floor(Math.random() * types.length)];
-};
+  // Replays a save's digs (and broken ice) on the grid and patches its progress onto a fresh hunt
+  const resumeHunt = useCallback((save: SaveData, world: GeneratedWorld, terrain: Terrain) => {
+    save.dug.forEach(([x, y, z]) => {
+      if (digVoxel(world.grid, x, y, z)) terrain.refreshColumn(x, z);
+    });
+    const melted = isIceBroken(save.ice) ? meltIce(world.grid, world.level.pond) : [];
+    melted.forEach(([x, , z]) => terrain.refreshColumn(x, z));
+    const changed = [...save.dug, ...melted];
+    if (changed.length > 0) {
+      setBuild(prev => prev && { ...prev, chunks: remeshVoxels(prev.world.grid, prev.chunks, changed) });
+    }
+    const hunt = restoreHunt(
+      save,
+      generateGifts(world.level, world.seed, terrain),
+      generateSnowmen(world.level, world.seed, terrain),
+      snowmanDrops,
+    );
+    setGameState(prev => ({ ...prev, ...hunt, seed: save.seed, started: true, gameOver: false }));
+  }, []);
 
-// --- Exact Terrain Logic from VoxelAssets ---
-const getTerrainVoxelY = (logicalX: number, logicalZ: number): number => {
-    // 1. Ponds (Flat Ice)
-    // Center (-35, 35), Radius ~16-18
-    const distToPond = Math.sqrt((logicalX - (-35))**2 + (logicalZ - 35)**2);
-    if (distToPond < 16) return -2; // Ice level
-
-    // 2. Paths (Flat Ground)
-    // Simplified path check matching the visual generation roughly
-    // Central Hub
-    const distToCenter = Math.sqrt(logicalX**2 + logicalZ**2);
-    if (distToCenter < 5) return 0;
-
-    // We can't easily replicate the exact path map without expensive computation,
-    // but for random scatter, we generally assume "Wild" terrain.
-    // If an object falls on a path (y=0) but we calculate noise height, it might float/sink.
-    // However, the main paths are usually at y=0.
-    // Let's rely on the noise function for the general terrain. 
-    // If it looks odd on paths, we can add exclusion zones.
-
-    // 3. General Terrain Noise (Exact Formula)
-    const noise = Math.sin(logicalX * 0.05) * Math.cos(logicalZ * 0.05) * 6 + Math.sin(logicalX*0.1 + logicalZ*0.2)*2;
-    return Math.floor(noise);
-};
+  // Initialize Game (re-runs whenever a new world is built)
+  useEffect(() => {
+    if (!world || !terrain) return;
+    setUrlSeed(world.seed);
+
+    const save = pendingSave.current;
+    if (save && matchesSave(save, world.seed, world.level)) {
+      pendingSave.current = null;
+      resumeHunt(save, world, terrain);
+      return;
+    }
 
-const generateGifts = (count: number): Gift[] => {
-  const gifts: Gift[] = [];
-  let idCounter = 0;
-
-  const addGift = (x: number, y: number, z: number, type: GiftType = getRandomType()) => {
-    gifts.push({
-      id: idCounter++,
-      position: [x, y, z],
-      color: getRandomColor(),
-      collected: false,
-      type: type,
-      rotation: [Math.random() * 0.5, Math.random() * Math.PI * 2, Math.random() * 0.5]
-    });
-  };
+    setGameState(prev => ({
+      ...newGameState(prev.seed, prev.started, prev.mode),
+      gifts: generateGifts(world.level, world.seed, terrain), 
+      snowmen: generateSnowmen(world.level, world.seed, terrain),
+      doors: initialDoors(world.level),
+    }));
+  }, [world, terrain, resumeHunt]);
 
-  // 1. PLACE ON TREE (Spiral upwards)
-  // Tree is at (0,0). Matches VoxelAssets tree logic for surface placement.
-  const treeCount = 12; // Increased count for better visibility
-  const maxRadius = 32;
-  const treeHeight = 100;
-
-  for (let i = 0; i < treeCount; i++) {
-    // Height between 15% and 85% of tree
-    const heightPercent = 0.15 + (Math.random() * 0.7); 
-    const yVoxel = heightPercent * treeHeight;
-    
-    // Exact radius logic from VoxelAssets: 
-    // currentRadius = maxRadius * (1 - progress) + (Math.sin(y * 0.5) * 1.5);
-    const radiusAtHeight = maxRadius * (1 - heightPercent) + (Math.sin(yVoxel * 0.5) * 1.5);
-    
-    // Place on the edge (foliage surface)
-    const angle = Math.random() * Math.PI * 2;
-    
-    // Modified: Place slightly OUTSIDE the calculated radius (radius + 1.5 voxels)
-    // ensuring items are visible on the surface rather than buried inside.
-    const r = radiusAtHeight + 1.5; 
-
-    const xVoxel = Math.cos(angle) * r;
-    const zVoxel = Math.sin(angle) * r;
-    
-    addGift(
-      xVoxel * VOXEL_SIZE, 
-      (yVoxel * VOXEL_SIZE), 
-      zVoxel * VOXEL_SIZE, 
-      i % 2 === 0 ? 'ornament' : 'star'
-    );
-  }
-
-  // 2. PLACE IN HOUSES
-  // Floor is consistently at Y=0 for these houses.
-  const houses = [
-      { x: 50, z: 0, w: 12, d: 16 },
-      { x: 30, z: -50, w: 10, d: 12 },
-      { x: -40, z: -40, w: 14, d: 10 },
-      { x: 0, z: 60, w: 16, d: 12 },
-  ];
-
-  houses.forEach(h => {
-      const numInside = 1 + Math.floor(Math.random() * 2);
-      for(let k=0; k<numInside; k++) {
-          const rX = (Math.random() - 0.5) * (h.w - 5);
-          const rZ = (Math.random() - 0.5) * (h.d - 5);
-          
-          addGift(
-            (h.x + rX) * VOXEL_SIZE, 
-            (0 * VOXEL_SIZE) + 0.3, // Floor is 0. +0.3 to sit on floor.
-            (h.z + rZ) * VOXEL_SIZE,
-            'stocking'
-          );
-      }
-  });
-
-  // 3. PLACE ON ICE POND
-  // Ice surface is at voxel Y = -2.
-  const pondCount = 4;
-  for(let i=0; i<pondCount; i++) {
-      const angle = Math.random() * Math.PI * 2;
-      const r = Math.random() * 12; 
-      const px = -35 + Math.cos(angle) * r;
-      const pz = 35 + Math.sin(angle) * r;
-      
-      addGift(
-          px * VOXEL_SIZE,
-          (-2 * VOXEL_SIZE) + 0.3, // Sit on ice
-          pz * VOXEL_SIZE,
-          'cane'
-      );
-  }
-
-  // 4. RANDOM TERRAIN SCATTER (The rest)
-  const currentCount = gifts.length;
-  const targetInitial = 25;
-  const remaining = Math.max(0, targetInitial - currentCount);
-  
-  for (let i = 0; i < remaining; i++) {
-    let xVoxel, zVoxel;
-    let valid = false;
-    let attempts = 0;
-    
-    while (!valid && attempts < 50) {
-      attempts++;
-      // Random scan in a large area
-      xVoxel = (Math.random() - 0.5) * 160; 
-      zVoxel = (Math.random() - 0.5) * 160;
-      
-      // Avoid center tree trunk
-      if (Math.sqrt(xVoxel**2 + zVoxel**2) < 6) continue;
+  const reportedState = useRef(gameState); // The state last reported to the event bus
 
-      // Get exact terrain height
-      const yVoxel = getTerrainVoxelY(xVoxel, zVoxel);
-      
-      // Convert to world
-      const worldY = (yVoxel * VOXEL_SIZE) + 0.5; // +0.5 to lift center of gift box above ground
+  // What winning takes on the map being played (or about to be)
+  const objectives = useMemo(() => levelObjectives(world?.level ?? level), [world, level]);
+  const objectiveProgress = useMemo(() => objectives.map(o => objectiveStatus(o, gameState)), [objectives, gameState]);
+
+  // Every change to a running hunt goes through the reducer, and into the recording if one is running
+  const huntRecorder = useRef(createRecorder());
+  const dispatch = useCallback((input: HuntInput) => {
+    huntRecorder.current.input(input);
+    setGameState(prev => reduceHunt(prev, input, { terrain, objectives, pond: (world?.level ?? level).pond, buildings: (world?.level ?? level).buildings }));
+  }, [terrain, world, level, objectives]);
 
-      addGift(xVoxel * VOXEL_SIZE, worldY, zVoxel * VOXEL_SIZE);
-      valid = true;
+  // A hunt is recorded from its start until it's won or the time runs out. Subscribed
+  // before the events below are reported, so a new world's start is never missed.
+  useEffect(() => {
+    if (!world) return;
+    const finish = () => {
+      const recording = huntRecorder.current.stop();
+      if (recording) setLastRecording(recording);
+    };
+    const stops = [
+      gameEvents.on('huntStarted', () => huntRecorder.current.start(reportedState.current, world.level)),
+      gameEvents.on('huntWon', finish),
+      gameEvents.on('timeUp', finish),
+    ];
+    return () => stops.forEach(stop => stop());
+  }, [world]);
+
+  const recordCamera = useCallback((pose: CameraPose) => huntRecorder.current.camera(pose), []);
+  const recordPick = useCallback((pick: HuntInput) => huntRecorder.current.input(pick), []);
+
+  // Report what changed to the event bus. Runs after the update lands, so the state
+  // updaters stay free of side effects.
+  useEffect(() => {
+    const prev = reportedState.current;
+    reportedState.current = gameState;
+    if (prev === gameState) return;
+    diffGameEvents(prev, gameState, world, objectives).forEach(e => gameEvents.emit(e.payload, gameState.elapsed, e.position));
+  }, [gameState, world, objectives]);
+
+  // Session log, and event sounds (muted through a ref so the listener stays bound once)
+  const recorder = useRef<SessionRecorder | null>(null);
+  const soundEnabled = useRef(soundOn);
+  soundEnabled.current = soundOn;
+  useEffect(() => {
+    const sessions = recordSessions(gameEvents);
+    recorder.current = sessions;
+    const stopSounds = playEventSounds(gameEvents, () => soundEnabled.current);
+    const stopAchievements = trackAchievements(gameEvents, () => reportedState.current);
+    return () => {
+      sessions.stop();
+      stopSounds();
+      stopAchievements();
+    };
+  }, []);
+
+  const lastMoveSample = useRef(0);
+  const handleViewChange = useCallback((next: ViewInfo) => {
+    if (hintsOn || minimapOn) setView(next);
+    const now = Date.now();
+    if (now - lastMoveSample.current < MOVE_SAMPLE_MS) return;
+    lastMoveSample.current = now;
+    gameEvents.emit({ type: 'playerMoved', heading: next.heading }, reportedState.current.elapsed, next.target);
+  }, [hintsOn, minimapOn]);
+
+  // Keep the save in step with the hunt; a finished hunt has nothing left to resume.
+  // The snowmen change the state every AI tick, so only progress is written at once.
+  const latestSave = useRef<SaveData | null>(null);
+  const lastWrite = useRef({ at: 0, progress: '' });
+  const flushSave = useCallback(() => {
+    const save = latestSave.current;
+    if (!save) return;
+    writeSave(save);
+    lastWrite.current = { at: Date.now(), progress: saveProgress(save) };
+  }, []);
+
+  useEffect(() => {
+    if (!gameState.started || !world || world.seed !== gameState.seed) return;
+    if (gameState.gameOver) {
+      latestSave.current = null;
+      clearSave();
+      setSavedHunt(null);
+      return;
     }
-  }
+    const save = createSave(world.level, gameState);
+    latestSave.current = save;
+    if (saveProgress(save) !== lastWrite.current.progress || Date.now() - lastWrite.current.at >= SAVE_INTERVAL_MS) flushSave();
+  }, [gameState, world, flushSave]);
 
-  return gifts;
-};
+  // Whatever the throttle held back is written before the page goes away
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') flushSave();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('beforeunload', flushSave);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('beforeunload', flushSave);
+    };
+  }, [flushSave]);
+
+  // Play clock, paused while editing. A challenge ends when it runs out.
+  useEffect(() => {
+    if (!gameState.started || gameState.gameOver || editing) return;
+    const timer = setInterval(() => dispatch({ kind: 'clock' }), 1000);
+    return () => clearInterval(timer);
+  }, [gameState.started, gameState.gameOver, editing, dispatch]);
+
+  const handleCollect = useCallback((id: number) => dispatch({ kind: 'collect', giftId: id }), [dispatch]);
+  const handleSnowmanHit = useCallback((id: number) => dispatch({ kind: 'snowmanHit', snowmanId: id }), [dispatch]);
+
+  const aiTick = useRef(0);
+  const handleSnowmenTick = useCallback((dt: number, player: Vector3Tuple) => {
+    dispatch({ kind: 'snowmenTick', tick: ++aiTick.current, dt, player });
+  }, [dispatch]);
+
+  const handleSnowballLand = useCallback((id: number, hitCamera: boolean) => {
+    dispatch({ kind: 'snowballLand', snowballId: id });
+    if (!hitCamera) return;
+    setFrostedAt(Date.now());
+    gameEvents.emit({ type: 'playerFrosted' }, reportedState.current.elapsed);
+  }, [dispatch]);
+
+  const handleThrow = useCallback(() => {
+    if (gameState.ammo <= 0) return false;
+    dispatch({ kind: 'throw' });
+    return true;
+  }, [gameState.ammo, dispatch]);
+
+  const handleScoop = useCallback(() => {
+    if (gameState.ammo >= SNOWBALL_CAPACITY) return false;
+    dispatch({ kind: 'scoop' });
+    return true;
+  }, [gameState.ammo, dispatch]);
 
-const generateSnowmen = (count: number): Snowman[] => {
-    const snowmen: Snowman[] = [];
-    const maxRange = 70; // Voxel units radius
-
-    for(let i=0; i<count; i++) {
-        let xVoxel, zVoxel, yVoxel = 0;
-        let valid = false;
-        let attempts = 0;
-
-        // Specific scenic spots for first few
-        if (i === 0) { xVoxel = 15; zVoxel = 15; }
-        else if (i === 1) { xVoxel = -20; zVoxel = -10; } // Near path
-        else {
-            // Random placement
-            while (!valid && attempts < 20) {
-                attempts++;
-                xVoxel = (Math.random() - 0.5) * 2 * maxRange;
-                zVoxel = (Math.random() - 0.5) * 2 * maxRange;
-                
-                // Avoid center
-                if (Math.sqrt(xVoxel**2 + zVoxel**2) < 8) continue;
-                valid = true;
-            }
-        }
-        
-        if (!xVoxel) xVoxel = 10; 
-        if (!zVoxel) zVoxel = 10;
-
-        // Calculate Ground Height
-        yVoxel = getTerrainVoxelY(xVoxel, zVoxel);
-
-        // Snowman visual adjustment
-        const worldY = (yVoxel * VOXEL_SIZE); 
-
-        snowmen.push({
-            id: i,
-            position: [xVoxel * VOXEL_SIZE, worldY, zVoxel * VOXEL_SIZE],
-            rotation: Math.random() * Math.PI * 2,
-            hp: 3,
-            isDead: false
-        });
+  useEffect(() => {
+    if (frostedAt === null) return;
+    const timer = setTimeout(() => setFrostedAt(null), FROST_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [frostedAt]);
+
+  // Digging edits the grid in place, then re-meshes only the chunks around the hole
+  const handleDig = useCallback((x: number, y: number, z: number) => {
+    if (!world || !terrain || !digVoxel(world.grid, x, y, z)) return false;
+    terrain.refreshColumn(x, z);
+    setBuild(prev => prev && { ...prev, chunks: remeshVoxels(prev.world.grid, prev.chunks, [[x, y, z]]) });
+    dispatch({ kind: 'dig', voxel: [x, y, z] });
+    return true;
+  }, [world, terrain, dispatch]);
+
+  const handleToggleDoor = useCallback((index: number) => {
+    if (gameState.doors[index]?.locked && !gameState.keys.includes(index)) {
+      gameEvents.emit({ type: 'doorRattled', door: index }, gameState.elapsed, world?.doors[index]?.position);
+      return;
     }
-    return snowmen;
-};
+    dispatch({ kind: 'door', index });
+  }, [gameState.doors, gameState.keys, gameState.elapsed, world, dispatch]);
+
+  // The hit that shatters the ice also clears it out of the grid, opening the pond up to the water
+  const handleCrackIce = useCallback((at: Vector3Tuple) => {
+    if (world && terrain && gameState.ice.cracks === ICE_BREAK_CRACKS - 1) {
+      const melted = meltIce(world.grid, world.level.pond);
+      melted.forEach(([x, , z]) => terrain.refreshColumn(x, z));
+      setBuild(prev => prev && { ...prev, chunks: remeshVoxels(prev.world.grid, prev.chunks, melted) });
+    }
+    dispatch({ kind: 'crackIce', at });
+  }, [world, terrain, gameState.ice.cracks, dispatch]);
 
-const App: React.FC = () => {
-  const [gameState, setGameState] = useState<GameState>({
-    started: false,
-    gifts: [],
-    snowmen: [],
-    foundCount: 0,
-    gameOver: false,
-  });
+  const handleFish = useCallback((at: Vector3Tuple) => dispatch({ kind: 'fish', at }), [dispatch]);
+
+  const timeLeft = Math.max(0, CHALLENGE_SECONDS - gameState.elapsed);
+  const liveScore = useMemo(() => scoreHunt(gameState.gifts, gameState.elapsed, false, gameState.hintsUsed).total, [gameState.gifts, gameState.elapsed, gameState.hintsUsed]);
+
+  // Spends a charge to show a gift through walls for a few seconds
+  const revealGift = (giftId: number) => {
+    if (gameState.hintsUsed >= HINT_CHARGES || revealedGiftId !== null) return;
+    dispatch({ kind: 'hint', giftId });
+    setRevealedGiftId(giftId);
+    gameEvents.emit({ type: 'hintUsed', giftId }, gameState.elapsed, gameState.gifts.find(g => g.id === giftId)?.position);
+  };
 
-  // Initialize Game
   useEffect(() => {
-    setGameState(prev => ({
-      ...prev,
-      gifts: generateGifts(30), 
-      snowmen: generateSnowmen(5)
-    }));
-  }, []);
+    if (revealedGiftId === null) return;
+    const timer = setTimeout(() => setRevealedGiftId(null), HINT_SECONDS * 1000);
+    return () => clearTimeout(timer);
+  }, [revealedGiftId]);
 
-  const handleCollect = useCallback((id: number) => {
-    setGameState(prev => {
-      const gift = prev.gifts.find(g => g.id === id);
-      if (gift && gift.collected) return prev;
-
-      const newGifts = prev.gifts.map(g => g.id === id ? { ...g, collected: true } : g);
-      const newCount = prev.foundCount + 1;
-      const totalGoals = 30;
-
-      return {
-        ...prev,
-        gifts: newGifts,
-        foundCount: newCount,
-        gameOver: newCount >= totalGoals,
-      };
-    });
-  }, []);
+  const startGame = (mode: GameMode) => {
+    setGameState(prev => ({ ...prev, started: true, mode }));
+  };
 
-  const handleSnowmanHit = useCallback((id: number) => {
-      setGameState(prev => {
-          const sm = prev.snowmen.find(s => s.id === id);
-          if (!sm || sm.isDead) return prev;
-
-          const newHp = sm.hp - 1;
-          const isDead = newHp <= 0;
-          
-          let newGifts = [...prev.gifts];
-          
-          if (isDead) {
-              const newGiftId = 1000 + id; 
-              newGifts.push({
-                  id: newGiftId,
-                  // Spawn gift slightly above where snowman was
-                  position: [sm.position[0], sm.position[1] + 1.0, sm.position[2]], 
-                  color: '#ff00ff', 
-                  collected: false,
-                  type: 'gingerbread',
-                  rotation: [0, 0, 0]
-              });
-          }
-
-          const newSnowmen = prev.snowmen.map(s => s.id === id ? { ...s, hp: newHp, isDead } : s);
-
-          return {
-              ...prev,
-              snowmen: newSnowmen,
-              gifts: newGifts
-          };
-      });
-  }, []);
+  const continueGame = () => {
+    if (!savedHunt) return;
+    if (world && terrain && matchesSave(savedHunt, world.seed, world.level)) {
+      resumeHunt(savedHunt, world, terrain);
+      return;
+    }
+    // Different seed or map: rebuild first, the init effect resumes once it's ready
+    pendingSave.current = savedHunt;
+    if (JSON.stringify(savedHunt.level) !== JSON.stringify(level)) setLevel(savedHunt.level);
+    setGameState(prev => ({ ...prev, seed: savedHunt.seed }));
+  };
+
+  // Starts over without reloading the page. The world is rebuilt even for the same seed,
+  // since digs have changed the current one.
+  const resetHunt = (nextSeed: number) => {
+    clearSave();
+    setSavedHunt(null);
+    pendingSave.current = null;
+    setDigging(false);
+    setThrowing(false);
+    setWalking(false);
+    setRevealedGiftId(null);
+    setFrostedAt(null);
+    setGameState(prev => newGameState(nextSeed, true, prev.mode));
+    setGeneration(prev => prev + 1);
+  };
 
-  const startGame = () => {
-    setGameState(prev => ({ ...prev, started: true }));
+  const rollSeed = () => {
+    setGameState(prev => ({ ...prev, seed: randomSeed() }));
   };
 
+  const openReplay = (file: File) => {
+    file.text()
+      .then(text => setReplay(readRecording(text)))
+      .catch((err: Error) => setLevelError(`${file.name}: ${err.message}`));
+  };
+
+  const toggleEditor = () => {
+    setEditing(prev => !prev);
+    setEditorSelection(null);
+    setEditorTool('select');
+  };
+
+  if (replay) return <ReplayViewer recording={replay} onExit={() => setReplay(null)} />;
+
   return (
     <div className="relative w-full h-full font-sans text-white select-none">
       
       {/* 3D Scene Layer */}
       <div className="absolute inset-0 z-0 bg-black">
         <GameScene 
+            world={build}
+            timeOfDay={timeOfDay}
+            weather={weather}
+            onWeatherChange={setWeatherKind}
+            terrain={terrain}
             gifts={gameState.gifts} 
             snowmen={gameState.snowmen}
             onCollect={handleCollect} 
             onSnowmanHit={handleSnowmanHit}
+            onDig={gameState.started && digging ? handleDig : undefined}
+            onThrow={gameState.started && throwing ? handleThrow : undefined}
+            onScoop={handleScoop}
+            doors={gameState.doors}
+            onToggleDoor={handleToggleDoor}
+            ice={gameState.ice}
+            onCrackIce={handleCrackIce}
+            onFish={gameState.started && !gameState.gameOver ? handleFish : undefined}
+            onViewChange={gameState.started ? handleViewChange : undefined}
+            revealedGiftId={revealedGiftId}
+            flyTo={flyTo}
+            onSnowmenTick={gameState.started && !gameState.gameOver && !editing ? handleSnowmenTick : undefined}
+            snowballs={gameState.snowballs}
+            onSnowballLand={handleSnowballLand}
+            onCameraSample={gameState.started && !gameState.gameOver && !editing ? recordCamera : undefined}
+            onPickLog={recordPick}
+            editor={editing ? {
+                level,
+                selection: editorSelection,
+                tool: editorTool,
+                onSelect: setEditorSelection,
+                onChange: setLevel,
+            } : undefined}
+            walking={gameState.started && walking && !editing}
         />
       </div>
 
+      {/* Frost from a snowball to the face; remounted per hit so the fade restarts */}
+      {frostedAt !== null && (
+        <div
+          key={frostedAt}
+          className="absolute inset-0 z-10 pointer-events-none"
+          style={{
+            background: 'radial-gradient(ellipse at center, rgba(255,255,255,0.15) 20%, rgba(240,248,255,0.95) 75%)',
+            animation: `frost-fade ${FROST_SECONDS}s ease-in forwards`,
+          }}
+        />
+      )}
+
       {/* UI Overlay Layer */}
       <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
         
@@ -302,24 +471,131 @@ const App: React.FC = () => {
         <div className="flex justify-between items-start">
            <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/20 shadow-lg flex flex-col gap-1">
               <h1 className="text-2xl font-bold text-yellow-400 drop-shadow-md">Christmas Hunt</h1>
-              <p className="text-sm text-gray-200">Find 30 items!</p>
-              <div className="flex gap-2 text-xs text-gray-400 mt-1">
-                  <span>🎄 Ornaments</span>
-                  <span>🧦 Stockings</span>
-                  <span className="text-white font-bold">☃️ Break Snowmen!</span>
-              </div>
+              {gameState.started && gameState.gifts.length > 0
+                  ? <ObjectiveList objectives={objectiveProgress} />
+                  : <p className="text-sm text-gray-200">Find the hidden presents!</p>}
+              <span className="text-xs text-gray-500 font-mono mt-1">
+                  Seed #{gameState.seed}
+                  {gameState.started && gameState.mode === 'explore' && <span> • ⏱ {formatElapsed(gameState.elapsed)}</span>}
+                  {weatherKind && <span> • {WEATHER[weatherKind].icon} {WEATHER[weatherKind].label}</span>}
+                  {buildProgress !== null && <span className="text-yellow-300"> • Building {Math.round(buildProgress * 100)}%</span>}
+              </span>
+              {gameState.started && !editing && (
+                  <div className="flex gap-2 mt-1">
+                      <button
+                          onClick={() => {
+                              setDigging(prev => !prev);
+                              setThrowing(false);
+                          }}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${digging ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          ⛏️ Dig
+                      </button>
+                      <button
+                          onClick={() => {
+                              setThrowing(prev => !prev);
+                              setDigging(false);
+                          }}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${throwing ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          ❄️ Throw <span className="font-mono">{gameState.ammo}/{SNOWBALL_CAPACITY}</span>
+                      </button>
+                      <button
+                          onClick={() => {
+                              setWalking(prev => !prev);
+                              setFlyTo(null);
+                          }}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${walking ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          🚶 Walk
+                      </button>
+                      <button
+                          onClick={() => resetHunt(gameState.seed)}
+                          className="pointer-events-auto px-3 py-1 rounded-full border border-white/20 text-xs text-gray-200 hover:bg-white/10 transition-colors"
+                      >
+                          ↺ Restart
+                      </button>
+                      <button
+                          onClick={() => setHintsOn(prev => !prev)}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${hintsOn ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          🧭 Hints
+                      </button>
+                      <button
+                          onClick={() => setMinimapOn(prev => !prev)}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${minimapOn ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          🗺️ Map
+                      </button>
+                      <button
+                          onClick={() => setSoundOn(prev => !prev)}
+                          className={`pointer-events-auto px-3 py-1 rounded-full border text-xs transition-colors ${soundOn ? 'bg-yellow-400 text-black border-yellow-300' : 'border-white/20 text-gray-200 hover:bg-white/10'}`}
+                      >
+                          {soundOn ? '🔊' : '🔇'} Sound
+                      </button>
+                      <button
+                          onClick={() => {
+                              const log = recorder.current?.current();
+                              if (log) downloadSessionLog(log);
+                          }}
+                          title="Download everything that happened this hunt as JSON"
+                          className="pointer-events-auto px-3 py-1 rounded-full border border-white/20 text-xs text-gray-200 hover:bg-white/10 transition-colors"
+                      >
+                          ⬇ Log
+                      </button>
+                      <button
+                          onClick={() => setProfileOpen(true)}
+                          className="pointer-events-auto px-3 py-1 rounded-full border border-white/20 text-xs text-gray-200 hover:bg-white/10 transition-colors"
+                      >
+                          🏆 Profile
+                      </button>
+                      <button
+                          onClick={toggleEditor}
+                          className="pointer-events-auto px-3 py-1 rounded-full border border-white/20 text-xs text-gray-200 hover:bg-white/10 transition-colors"
+                      >
+                          ✏️ Level Editor
+                      </button>
+                  </div>
+              )}
            </div>
            
-           <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/20 flex flex-col items-center min-w-[120px] shadow-lg">
-              <span className="text-xs uppercase tracking-wider text-gray-400">Presents</span>
-              <span className="text-4xl font-bold font-mono text-green-400">
-                {gameState.foundCount}<span className="text-white/50 text-2xl">/30</span>
-              </span>
+           <div className="flex gap-3 items-start">
+              {gameState.started && hintsOn && !editing && (
+                  <HintCompass
+                      gifts={gameState.gifts}
+                      doors={gameState.doors}
+                      view={view}
+                      hintsUsed={gameState.hintsUsed}
+                      revealing={revealedGiftId !== null}
+                      onReveal={revealGift}
+                  />
+              )}
+              {gameState.started && gameState.mode === 'challenge' && (
+                  <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/20 flex flex-col items-center min-w-[120px] shadow-lg">
+                      <span className="text-xs uppercase tracking-wider text-gray-400">Time</span>
+                      <span className={`text-4xl font-bold font-mono ${timeLeft <= 30 ? 'text-red-400 animate-pulse' : 'text-yellow-300'}`}>
+                        {formatElapsed(timeLeft)}
+                      </span>
+                      <span className="text-xs font-mono text-gray-300">{liveScore} pts</span>
+                  </div>
+              )}
+              <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/20 flex flex-col items-center min-w-[120px] shadow-lg">
+                  <span className="text-xs uppercase tracking-wider text-gray-400">Presents</span>
+                  <span className="text-4xl font-bold font-mono text-green-400">
+                    {gameState.foundCount}
+                  </span>
+                  <span className="text-xs font-mono text-gray-300">
+                    {objectiveProgress.filter(o => o.done).length}/{objectiveProgress.length} objectives
+                  </span>
+                  {gameState.keys.length > 0 && (
+                      <span className="text-xs text-yellow-300" title="Opens a locked door">🔑 ×{gameState.keys.length}</span>
+                  )}
+              </div>
            </div>
         </div>
 
         {/* Start Screen */}
-        {!gameState.started && (
+        {!gameState.started && !editing && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto backdrop-blur-sm z-50">
                 <div className="max-w-md text-center space-y-6 p-8 border border-white/10 rounded-2xl bg-gray-900/90 shadow-2xl">
                     <h2 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-red-500 to-green-500">
@@ -332,41 +608,193 @@ const App: React.FC = () => {
                     <div className="grid grid-cols-2 gap-4 text-sm text-gray-400 bg-black/30 p-4 rounded-lg">
                         <div className="text-white">👆 <strong>WASD / Drag</strong><br/><span className="text-xs text-gray-500">to Move View</span></div>
                         <div className="text-white">🖱️ <strong>Right Click</strong><br/><span className="text-xs text-gray-500">to Rotate</span></div>
-                        <div className="col-span-2">☃️ <strong>Click Snowmen</strong> 3 times to break!</div>
+                        <div className="col-span-2">☃️ <strong>Click Snowmen</strong> until they break! Big ones take more hits and drop more. They run when hit and throw back.</div>
+                        <div className="col-span-2">🧊 <strong>Click the pond</strong> to crack the ice. Gifts on it sink when it breaks; click the water to fish them out.</div>
+                        <div className="col-span-2">🔑 <strong>Locked houses</strong> need a key, hidden in another house or carried by a snowman.</div>
+                    </div>
+                    {levelError && (
+                        <pre className="text-left text-xs text-red-300 bg-red-950/60 border border-red-500/30 rounded-lg p-3 whitespace-pre-wrap max-h-40 overflow-y-auto">
+                            {levelError}
+                        </pre>
+                    )}
+                    <div className="flex items-center justify-center gap-3 text-sm">
+                        <span className="text-gray-400">{level.name}</span>
+                        <span className="text-gray-600">•</span>
+                        <span className="text-gray-400">Hunt seed</span>
+                        <span className="font-mono text-yellow-300">#{gameState.seed}</span>
+                        <button 
+                            onClick={rollSeed}
+                            className="px-3 py-1 rounded-full border border-white/20 text-gray-200 hover:bg-white/10 transition-colors"
+                        >
+                            🎲 New Seed
+                        </button>
                     </div>
+                    {savedHunt && buildProgress === null && (
+                        <button
+                            onClick={continueGame}
+                            className="w-full px-6 py-3 rounded-xl border border-green-400/40 bg-green-900/40 hover:bg-green-800/50 text-left transition-colors"
+                        >
+                            <span className="block font-bold text-green-300">▶ Continue</span>
+                            <span className="block text-xs text-gray-400">
+                                {savedHunt.level.name}{savedHunt.mode === 'challenge' && ' (Timed Challenge)'} • Seed #{savedHunt.seed} • {savedHunt.collected.length} found • ⏱ {formatElapsed(savedHunt.elapsed)}
+                            </span>
+                        </button>
+                    )}
+                    {buildProgress !== null ? (
+                        <div className="space-y-2">
+                            <div className="h-3 w-full bg-white/10 rounded-full overflow-hidden border border-white/10">
+                                <div
+                                    className="h-full bg-gradient-to-r from-red-600 to-green-500 transition-[width] duration-150"
+                                    style={{ width: `${Math.round(buildProgress * 100)}%` }}
+                                />
+                            </div>
+                            <p className="text-xs text-gray-400">Building the village… {Math.round(buildProgress * 100)}%</p>
+                        </div>
+                    ) : (
+                        <div className="flex flex-col items-center gap-3">
+                            <button 
+                                onClick={() => startGame('explore')}
+                                disabled={!build}
+                                className="px-8 py-3 bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white font-bold rounded-full transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(220,38,38,0.5)] disabled:opacity-40"
+                            >
+                                Start Hunting
+                            </button>
+                            <button
+                                onClick={() => startGame('challenge')}
+                                disabled={!build}
+                                className="px-6 py-2 rounded-full border border-yellow-400/50 text-yellow-300 hover:bg-yellow-400/10 text-sm font-bold transition-colors disabled:opacity-40"
+                            >
+                                ⏱ Timed Challenge • {formatElapsed(CHALLENGE_SECONDS)}
+                            </button>
+                        </div>
+                    )}
                     <button 
-                        onClick={startGame}
-                        className="px-8 py-3 bg-gradient-to-r from-red-600 to-red-500 hover:from-red-500 hover:to-red-400 text-white font-bold rounded-full transition-all transform hover:scale-105 shadow-[0_0_20px_rgba(220,38,38,0.5)]"
+                        onClick={toggleEditor}
+                        className="block mx-auto text-sm text-gray-400 hover:text-white transition-colors"
                     >
-                        Start Hunting
+                        ✏️ Level Editor
                     </button>
+                    <button
+                        onClick={() => setProfileOpen(true)}
+                        className="block mx-auto text-sm text-gray-400 hover:text-white transition-colors"
+                    >
+                        🏆 Profile & Achievements
+                    </button>
+                    <label className="block mx-auto text-sm text-gray-400 hover:text-white transition-colors cursor-pointer">
+                        ▶ Open Replay…
+                        <input
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={e => {
+                                const file = e.target.files?.[0];
+                                if (file) openReplay(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </label>
                 </div>
             </div>
         )}
 
+        {/* Challenge Results */}
+        {gameState.gameOver && !editing && gameState.mode === 'challenge' && (
+            <ResultsScreen
+                seed={gameState.seed}
+                level={world?.level ?? level}
+                gifts={gameState.gifts}
+                foundCount={gameState.foundCount}
+                objectives={objectiveProgress}
+                elapsed={gameState.elapsed}
+                hintsUsed={gameState.hintsUsed}
+                onPlayAgain={() => resetHunt(gameState.seed)}
+                onWatchReplay={lastRecording ? () => setReplay(lastRecording) : undefined}
+            />
+        )}
+
         {/* Win Screen */}
-        {gameState.gameOver && (
+        {gameState.gameOver && !editing && gameState.mode === 'explore' && (
             <div className="absolute inset-0 flex items-center justify-center bg-green-900/90 pointer-events-auto backdrop-blur-md z-50">
                  <div className="text-center space-y-6 animate-bounce-slow">
                     <h2 className="text-6xl font-bold text-yellow-300 drop-shadow-[0_4px_4px_rgba(0,0,0,0.5)]">
                         Merry Christmas!
                     </h2>
-                    <p className="text-2xl text-white">You found all the hidden treasures!</p>
-                    <button 
-                        onClick={() => window.location.reload()}
-                        className="mt-8 px-8 py-3 bg-white text-green-900 hover:bg-gray-100 rounded-full transition-colors font-bold shadow-xl"
-                    >
-                        Play Again
-                    </button>
+                    <p className="text-2xl text-white">Every objective done!</p>
+                    <div className="mt-8 flex justify-center gap-3">
+                        <button 
+                            onClick={() => resetHunt(randomSeed())}
+                            className="px-8 py-3 bg-white text-green-900 hover:bg-gray-100 rounded-full transition-colors font-bold shadow-xl"
+                        >
+                            Play Again
+                        </button>
+                        {lastRecording && (
+                            <button
+                                onClick={() => setReplay(lastRecording)}
+                                className="px-6 py-3 rounded-full border border-white/40 text-white hover:bg-white/10 transition-colors font-bold"
+                            >
+                                ▶ Watch Replay
+                            </button>
+                        )}
+                    </div>
                  </div>
             </div>
         )}
 
+        {/* Level Editor */}
+        {editing && (
+            <EditorPanel
+                level={level}
+                selection={editorSelection}
+                tool={editorTool}
+                onToolChange={setEditorTool}
+                onSelect={setEditorSelection}
+                onChange={setLevel}
+                onClose={toggleEditor}
+            />
+        )}
+
+        {profileOpen && <ProfileScreen onClose={() => setProfileOpen(false)} />}
+
+        {gameState.started && !editing && <EventToasts />}
+
+        {/* Crosshair: walking picks through the centre of the screen */}
+        {gameState.started && walking && !editing && (
+            <div className="absolute inset-0 flex items-center justify-center">
+                <div className="w-2 h-2 rounded-full bg-white/80 border border-black/40" />
+            </div>
+        )}
+
+        {/* Minimap */}
+        {gameState.started && minimapOn && !editing && terrain && (
+            <div className="absolute bottom-6 right-6 flex flex-col items-end gap-1">
+                <Minimap
+                    terrain={terrain}
+                    revision={build?.chunks}
+                    view={view}
+                    snowmen={gameState.snowmen}
+                    gifts={gameState.gifts}
+                    showFound={showFoundOnMap}
+                    onNavigate={(x, z) => !walking && setFlyTo({ x, z })}
+                />
+                <label className="pointer-events-auto flex items-center gap-1 text-xs text-gray-300 bg-black/40 px-2 py-0.5 rounded-full">
+                    <input type="checkbox" checked={showFoundOnMap} onChange={e => setShowFoundOnMap(e.target.checked)} />
+                    Show found gifts
+                </label>
+            </div>
+        )}
+
         {/* Controls Hint */}
-        {gameState.started && !gameState.gameOver && (
+        {gameState.started && !gameState.gameOver && !editing && (
             <div className="self-center">
                 <div className="bg-black/40 px-6 py-2 rounded-full text-xs text-gray-300 backdrop-blur-sm border border-white/10">
-                    Click Snowmen 3 times to find hidden gifts! • Check inside houses
+                    {walking && (
+                        <span className="text-white">Click to look around • WASD to walk • Space to jump • Esc frees the mouse • </span>
+                    )}
+                    {throwing
+                        ? (gameState.ammo > 0 ? 'Click to throw a snowball • ' : 'Out of snowballs! • ') + 'Click snow close by to scoop more'
+                        : digging
+                        ? 'Click snow to dig • Some presents are buried a few blocks down'
+                        : 'Break Snowmen to find hidden gifts! • Dodge their snowballs • Check inside houses'}
                 </div>
             </div>
         )}
@@ -1,23 +1,52 @@
-import React, { useRef, useState, useMemo } from 'react';
+import React, { useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
-import { Gift, GiftType } from '../types';
+import { Gift } from '../types';
 
+// Clicks are resolved by the voxel picker; this only draws the gifts
 interface CollectiblesProps {
   gifts: Gift[];
-  onCollect: (id: number) => void;
+  hoveredId: number | null;
+  revealedId?: number | null; // Gift shown through walls by a hint
 }
 
-export const Collectibles: React.FC<CollectiblesProps> = ({ gifts, onCollect }) => {
+export const Collectibles: React.FC<CollectiblesProps> = ({ gifts, hoveredId, revealedId }) => {
+  const revealed = gifts.find(g => g.id === revealedId && !g.collected);
   return (
     <group>
       {gifts.map((gift) => (
-        !gift.collected && <GiftItem key={gift.id} gift={gift} onClick={() => onCollect(gift.id)} />
+        !gift.collected && !gift.buried && <GiftItem key={gift.id} gift={gift} hovered={gift.id === hoveredId} />
       ))}
+      {revealed && <HintBeacon position={revealed.position} />}
     </group>
   );
 };
 
+// Pulsing marker drawn on top of everything, so a hinted gift shows through walls and snow
+const HintBeacon: React.FC<{ position: [number, number, number] }> = ({ position }) => {
+    const groupRef = useRef<THREE.Group>(null);
+
+    useFrame((state) => {
+        if (groupRef.current) {
+            const pulse = 1 + Math.sin(state.clock.elapsedTime * 6) * 0.2;
+            groupRef.current.scale.set(pulse, 1, pulse);
+        }
+    });
+
+    return (
+        <group ref={groupRef} position={position}>
+            <mesh renderOrder={999}>
+                <sphereGeometry args={[0.6, 16, 16]} />
+                <meshBasicMaterial color="#ffe066" transparent opacity={0.6} depthTest={false} depthWrite={false} toneMapped={false} />
+            </mesh>
+            <mesh position={[0, 6, 0]} renderOrder={999}>
+                <cylinderGeometry args={[0.08, 0.08, 12, 8]} />
+                <meshBasicMaterial color="#ffe066" transparent opacity={0.35} depthTest={false} depthWrite={false} toneMapped={false} />
+            </mesh>
+        </group>
+    );
+};
+
 // --- Asset Geometries ---
 
 const BoxAsset = ({ color }: { color: string }) => (
@@ -145,20 +174,39 @@ const StarAsset = () => (
     </group>
 );
 
+const KeyAsset = () => (
+    <group rotation={[0, 0, Math.PI / 2]}>
+        {/* Bow */}
+        <mesh position={[0, 0.3, 0]} castShadow>
+            <torusGeometry args={[0.15, 0.05, 8, 16]} />
+            <meshStandardMaterial color="#e6b800" emissive="#ffcc00" emissiveIntensity={0.5} metalness={0.9} roughness={0.2} />
+        </mesh>
+        {/* Shaft */}
+        <mesh position={[0, -0.05, 0]} castShadow>
+            <cylinderGeometry args={[0.04, 0.04, 0.55, 8]} />
+            <meshStandardMaterial color="#e6b800" emissive="#ffcc00" emissiveIntensity={0.5} metalness={0.9} roughness={0.2} />
+        </mesh>
+        {/* Teeth */}
+        {[0, 1].map(i => (
+            <mesh key={i} position={[0.08, -0.22 + i * 0.12, 0]}>
+                <boxGeometry args={[0.12, 0.06, 0.05]} />
+                <meshStandardMaterial color="#e6b800" metalness={0.9} roughness={0.2} />
+            </mesh>
+        ))}
+    </group>
+);
 
-const GiftItem: React.FC<{ gift: Gift, onClick: () => void }> = ({ gift, onClick }) => {
+const GiftItem: React.FC<{ gift: Gift, hovered: boolean }> = ({ gift, hovered }) => {
     const groupRef = useRef<THREE.Group>(null);
-    const [hovered, setHovered] = useState(false);
-    
-    // Add randomness to animation speed
-    const speedOffset = useMemo(() => Math.random() * 2, []);
+    const baseY = useRef(gift.position[1]); // Eases down to a new height, so a gift visibly sinks
 
-    useFrame((state) => {
+    useFrame((state, delta) => {
         if (groupRef.current) {
-            // Floating animation
-            groupRef.current.position.y = gift.position[1] + Math.sin(state.clock.elapsedTime * 2 + gift.id) * 0.2;
+            baseY.current = THREE.MathUtils.damp(baseY.current, gift.position[1], 1.5, delta);
+            // Floating animation (a sunken gift just rests on the bottom)
+            groupRef.current.position.y = baseY.current + (gift.sunk ? 0 : Math.sin(state.clock.elapsedTime * 2 + gift.id) * 0.2);
             // Rotation animation
-            groupRef.current.rotation.y += 0.015 + (hovered ? 0.05 : 0);
+            groupRef.current.rotation.y += (gift.sunk ? 0.003 : 0.015) + (hovered ? 0.05 : 0);
             
             // Hover scale
             const targetScale = hovered ? 1.3 : 1.0;
@@ -173,6 +221,7 @@ const GiftItem: React.FC<{ gift: Gift, onClick: () => void }> = ({ gift, onClick
             case 'stocking': return <StockingAsset />;
             case 'gingerbread': return <GingerbreadAsset />;
             case 'star': return <StarAsset />;
+            case 'key': return <KeyAsset />;
             case 'box':
             default: return <BoxAsset color={gift.color} />;
         }
@@ -183,15 +232,7 @@ const GiftItem: React.FC<{ gift: Gift, onClick: () => void }> = ({ gift, onClick
             ref={groupRef} 
             position={[gift.position[0], gift.position[1], gift.position[2]]}
             rotation={gift.rotation ? [gift.rotation[0], gift.rotation[1], gift.rotation[2]] : [0,0,0]}
-            onClick={(e) => { e.stopPropagation(); onClick(); }}
-            onPointerOver={() => { setHovered(true); document.body.style.cursor = 'pointer'; }}
-            onPointerOut={() => { setHovered(false); document.body.style.cursor = 'auto'; }}
         >
-            {/* Invisible Hitbox for easier clicking */}
-            <mesh visible={false}>
-                <sphereGeometry args={[1]} />
-            </mesh>
-            
             {/* The Asset */}
             {renderAsset()}
 
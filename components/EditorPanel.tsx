@@ -0,0 +1,204 @@
+import React, { useMemo, useRef } from 'react';
+import { EditorSelection, EditorTool, GiftType, LevelDefinition } from '../types';
+import { loadLevel, LevelValidationError } from '../utils/level';
+import {
+    addBuilding,
+    downloadLevel,
+    removeSelection,
+    setGiftSpawnType,
+    updateBuilding,
+    updatePath,
+} from '../utils/levelEditing';
+
+interface EditorPanelProps {
+    level: LevelDefinition;
+    selection: EditorSelection;
+    tool: EditorTool;
+    onToolChange: (tool: EditorTool) => void;
+    onSelect: (selection: EditorSelection) => void;
+    onChange: (level: LevelDefinition) => void;
+    onClose: () => void;
+}
+
+const TOOLS: { id: EditorTool, label: string, hint: string }[] = [
+    { id: 'select', label: '🖐️ Select', hint: 'Drag houses, the pond, path ends and spawn points' },
+    { id: 'path', label: '🛤️ Path', hint: 'Click two points on the ground to lay a path' },
+    { id: 'gift', label: '🎁 Gift', hint: 'Click the ground to place a fixed gift' },
+    { id: 'snowman', label: '☃️ Snowman', hint: 'Click the ground to place a snowman spot' },
+];
+
+const GIFT_TYPES: GiftType[] = ['box', 'cane', 'ornament', 'stocking', 'gingerbread', 'star'];
+
+// Small -/+ stepper used for building sizes and radii
+const Stepper: React.FC<{ label: string, value: number, min: number, max: number, step?: number, onChange: (value: number) => void }> = ({ label, value, min, max, step = 1, onChange }) => (
+    <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-400">{label}</span>
+        <div className="flex items-center gap-1">
+            <button className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30" disabled={value - step < min} onClick={() => onChange(value - step)}>−</button>
+            <span className="w-10 text-center font-mono">{value}</span>
+            <button className="w-6 h-6 rounded bg-white/10 hover:bg-white/20 disabled:opacity-30" disabled={value + step > max} onClick={() => onChange(value + step)}>+</button>
+        </div>
+    </div>
+);
+
+export const EditorPanel: React.FC<EditorPanelProps> = ({ level, selection, tool, onToolChange, onSelect, onChange, onClose }) => {
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    // Same validation the game runs on load, so exported files are guaranteed to open
+    const issues = useMemo(() => {
+        try {
+            loadLevel(level);
+            return [];
+        } catch (err) {
+            return err instanceof LevelValidationError ? err.issues : [String(err)];
+        }
+    }, [level]);
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onChange(loadLevel(JSON.parse(await file.text()), file.name));
+            onSelect(null);
+        } catch (err) {
+            window.alert(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const remove = () => {
+        onChange(removeSelection(level, selection));
+        onSelect(null);
+    };
+
+    const renderSelection = () => {
+        if (!selection) return <p className="text-gray-500">Nothing selected</p>;
+
+        switch (selection.kind) {
+            case 'building': {
+                const b = level.buildings[selection.index];
+                if (!b) return null;
+                const update = (patch: Partial<typeof b>) => onChange(updateBuilding(level, selection.index, patch));
+                return (
+                    <>
+                        <p className="font-bold text-yellow-300">🏠 {b.id} <span className="font-mono text-gray-500">({b.x}, {b.z})</span></p>
+                        <Stepper label="Width" value={b.width} min={6} max={40} step={2} onChange={width => update({ width })} />
+                        <Stepper label="Depth" value={b.depth} min={6} max={40} step={2} onChange={depth => update({ depth })} />
+                        <Stepper label="Height" value={b.height} min={8} max={40} onChange={height => update({ height })} />
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={!!b.locked} onChange={e => update({ locked: e.target.checked || undefined })} />
+                            🔒 Locked (its key is hidden in another house or on a snowman)
+                        </label>
+                        <div className="flex gap-2 pt-1">
+                            <button className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20" onClick={() => update({ rotation: b.rotation === 0 ? 1 : 0 })}>↻ Rotate</button>
+                            <button className="flex-1 px-2 py-1 rounded bg-red-600/60 hover:bg-red-600" onClick={remove}>Delete</button>
+                        </div>
+                    </>
+                );
+            }
+            case 'pond':
+                return (
+                    <>
+                        <p className="font-bold text-yellow-300">🧊 Pond <span className="font-mono text-gray-500">({level.pond.x}, {level.pond.z})</span></p>
+                        <Stepper label="Radius" value={level.pond.radius} min={6} max={30} onChange={radius => onChange({ ...level, pond: { ...level.pond, radius } })} />
+                    </>
+                );
+            case 'path': {
+                const p = level.paths[selection.index];
+                if (!p) return null;
+                return (
+                    <>
+                        <p className="font-bold text-yellow-300">🛤️ Path {selection.index + 1}</p>
+                        <Stepper label="Width" value={p.width ?? 1.5} min={0.5} max={8} step={0.5} onChange={width => onChange(updatePath(level, selection.index, { width }))} />
+                        <button className="w-full px-2 py-1 rounded bg-red-600/60 hover:bg-red-600" onClick={remove}>Delete</button>
+                    </>
+                );
+            }
+            case 'gift': {
+                const g = level.spawns.gifts.fixed?.[selection.index];
+                if (!g) return null;
+                return (
+                    <>
+                        <p className="font-bold text-yellow-300">🎁 Gift spawn <span className="font-mono text-gray-500">({g.x}, {g.z})</span></p>
+                        <select
+                            className="w-full bg-gray-800 rounded px-2 py-1"
+                            value={g.type ?? ''}
+                            onChange={e => onChange(setGiftSpawnType(level, selection.index, (e.target.value || undefined) as GiftType | undefined))}
+                        >
+                            <option value="">Random type</option>
+                            {GIFT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <button className="w-full px-2 py-1 rounded bg-red-600/60 hover:bg-red-600" onClick={remove}>Delete</button>
+                    </>
+                );
+            }
+            case 'snowman': {
+                const s = level.spawns.snowmen.spots[selection.index];
+                if (!s) return null;
+                return (
+                    <>
+                        <p className="font-bold text-yellow-300">☃️ Snowman spot <span className="font-mono text-gray-500">({s[0]}, {s[1]})</span></p>
+                        <button className="w-full px-2 py-1 rounded bg-red-600/60 hover:bg-red-600" onClick={remove}>Delete</button>
+                    </>
+                );
+            }
+        }
+    };
+
+    return (
+        <div className="absolute right-6 top-28 w-72 pointer-events-auto bg-gray-900/90 backdrop-blur-md border border-white/20 rounded-xl shadow-2xl p-4 space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold text-yellow-400">Level Editor</h2>
+                <button className="text-gray-400 hover:text-white" onClick={onClose}>✕ Done</button>
+            </div>
+
+            <input
+                className="w-full bg-gray-800 rounded px-2 py-1"
+                value={level.name}
+                onChange={e => onChange({ ...level, name: e.target.value })}
+                placeholder="Level name"
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+                {TOOLS.map(t => (
+                    <button
+                        key={t.id}
+                        onClick={() => onToolChange(t.id)}
+                        className={`px-2 py-1 rounded border ${tool === t.id ? 'bg-yellow-400 text-black border-yellow-300' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                    >
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-gray-400">{TOOLS.find(t => t.id === tool)?.hint}</p>
+
+            <div className="space-y-2 border-t border-white/10 pt-3">
+                {renderSelection()}
+            </div>
+
+            <button className="w-full px-2 py-1 rounded bg-white/10 hover:bg-white/20" onClick={() => { onChange(addBuilding(level, 0, -20)); onSelect({ kind: 'building', index: level.buildings.length }); }}>
+                + Add House
+            </button>
+
+            {issues.length > 0 && (
+                <ul className="text-xs text-red-300 bg-red-950/60 border border-red-500/30 rounded p-2 space-y-1 max-h-32 overflow-y-auto">
+                    {issues.map((issue, i) => <li key={i}>{issue}</li>)}
+                </ul>
+            )}
+
+            <div className="flex gap-2 border-t border-white/10 pt-3">
+                <button
+                    className="flex-1 px-2 py-1 rounded bg-green-600 hover:bg-green-500 disabled:opacity-40"
+                    disabled={issues.length > 0}
+                    onClick={() => downloadLevel(level)}
+                >
+                    ⬇ Export
+                </button>
+                <button className="flex-1 px-2 py-1 rounded bg-white/10 hover:bg-white/20" onClick={() => fileInput.current?.click()}>
+                    ⬆ Import
+                </button>
+                <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+            </div>
+        </div>
+    );
+};
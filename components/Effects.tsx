@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vector3Tuple } from '../types';
+import { Point3 } from '../utils/worldGen';
+import { EFFECT_PRESETS, EffectKind, onEffect, spawnEffect } from '../utils/vfx';
+import { gameEvents } from '../utils/events';
+import { SNOWMAN_VARIANTS } from '../utils/snowmanVariants';
+
+interface EffectsProps {
+    chimneys: Point3[]; // Each one puffs smoke continuously
+}
+
+const MAX_PARTICLES = 2048; // The pool; when it's full the oldest particles are recycled
+const SMOKE_INTERVAL = 0.35; // Seconds between puffs per chimney
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+
+// Every effect shares one instanced mesh; particles live in flat arrays, not React state
+export const Effects: React.FC<EffectsProps> = ({ chimneys }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const pool = useMemo(() => ({
+        position: new Float32Array(MAX_PARTICLES * 3),
+        velocity: new Float32Array(MAX_PARTICLES * 3),
+        gravity: new Float32Array(MAX_PARTICLES),
+        drag: new Float32Array(MAX_PARTICLES),
+        age: new Float32Array(MAX_PARTICLES),
+        life: new Float32Array(MAX_PARTICLES), // 0 = free slot
+        size: new Float32Array(MAX_PARTICLES),
+        next: 0, // Ring-buffer cursor
+        highWater: 0, // Slots at or past this were never used
+    }), []);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+    const color = useMemo(() => new THREE.Color(), []);
+    const smokeClock = useRef(0);
+
+    const emit = (kind: EffectKind, [x, y, z]: Vector3Tuple, tint?: number) => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const preset = EFFECT_PRESETS[kind];
+        for (let n = 0; n < preset.count; n++) {
+            const i = pool.next;
+            pool.next = (pool.next + 1) % MAX_PARTICLES;
+            pool.highWater = Math.max(pool.highWater, i + 1);
+
+            // Random direction on a sphere
+            const theta = Math.random() * Math.PI * 2;
+            const phi = Math.acos(2 * Math.random() - 1);
+            const speed = between(preset.speed);
+            pool.position[i * 3] = x + (Math.random() - 0.5) * preset.spread;
+            pool.position[i * 3 + 1] = y + (Math.random() - 0.5) * preset.spread;
+            pool.position[i * 3 + 2] = z + (Math.random() - 0.5) * preset.spread;
+            pool.velocity[i * 3] = Math.sin(phi) * Math.cos(theta) * speed;
+            pool.velocity[i * 3 + 1] = Math.cos(phi) * speed + preset.lift;
+            pool.velocity[i * 3 + 2] = Math.sin(phi) * Math.sin(theta) * speed;
+            pool.gravity[i] = preset.gravity;
+            pool.drag[i] = preset.drag;
+            pool.age[i] = 0;
+            pool.life[i] = between(preset.life);
+            pool.size[i] = between(preset.size);
+            mesh.setColorAt(i, color.setHex(tint ?? preset.colors[Math.floor(Math.random() * preset.colors.length)]));
+        }
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    };
+
+    // Bound once; `emit` only touches refs and the pool
+    const emitRef = useRef(emit);
+    emitRef.current = emit;
+    useEffect(() => onEffect((kind, position, tint) => emitRef.current(kind, position, tint)), []);
+
+    // Gameplay moments get their effect straight off the event bus
+    useEffect(() => {
+        const unsubscribe = [
+            gameEvents.on('giftCollected', e => e.position && emitRef.current('sparkle', e.position)),
+            gameEvents.on('snowmanKilled', e => {
+                if (!e.position) return;
+                const [x, y, z] = e.position;
+                emitRef.current('snowBurst', [x, y + 1.5 * SNOWMAN_VARIANTS[e.variant].scale, z]);
+            }),
+            gameEvents.on('iceCracked', e => e.broken && e.position && emitRef.current('iceShards', e.position)),
+        ];
+        return () => unsubscribe.forEach(stop => stop());
+    }, []);
+
+    useFrame((state, delta) => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const dt = Math.min(delta, 0.1);
+
+        smokeClock.current += dt;
+        if (smokeClock.current >= SMOKE_INTERVAL) {
+            smokeClock.current = 0;
+            chimneys.forEach(c => spawnEffect('smoke', [c.x, c.y, c.z]));
+        }
+
+        for (let i = 0; i < pool.highWater; i++) {
+            if (pool.life[i] <= 0) continue;
+            pool.age[i] += dt;
+            const t = pool.age[i] / pool.life[i];
+            if (t >= 1) {
+                pool.life[i] = 0;
+                dummy.scale.setScalar(0);
+            } else {
+                const damping = Math.max(0, 1 - pool.drag[i] * dt);
+                pool.velocity[i * 3] *= damping;
+                pool.velocity[i * 3 + 1] = pool.velocity[i * 3 + 1] * damping - pool.gravity[i] * dt;
+                pool.velocity[i * 3 + 2] *= damping;
+                pool.position[i * 3] += pool.velocity[i * 3] * dt;
+                pool.position[i * 3 + 1] += pool.velocity[i * 3 + 1] * dt;
+                pool.position[i * 3 + 2] += pool.velocity[i * 3 + 2] * dt;
+                dummy.position.set(pool.position[i * 3], pool.position[i * 3 + 1], pool.position[i * 3 + 2]);
+                dummy.rotation.set(pool.age[i] * 3, pool.age[i] * 2, 0);
+                dummy.scale.setScalar(pool.size[i] * (1 - t));
+            }
+            dummy.updateMatrix();
+            mesh.setMatrixAt(i, dummy.matrix);
+        }
+        mesh.count = pool.highWater;
+        mesh.instanceMatrix.needsUpdate = true;
+    });
+
+    return (
+        <instancedMesh ref={meshRef} args={[undefined, undefined, MAX_PARTICLES]} count={0} frustumCulled={false}>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial roughness={0.6} />
+        </instancedMesh>
+    );
+};
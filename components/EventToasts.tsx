@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GameEvent, gameEvents } from '../utils/events';
+import { SNOWMAN_VARIANTS } from '../utils/snowmanVariants';
+
+const TOAST_SECONDS = 2.5;
+const MAX_TOASTS = 4;
+
+// One line of HUD text for the events worth calling out
+const describe = (event: GameEvent): string | null => {
+    switch (event.type) {
+        case 'giftCollected':
+            if (event.giftType === 'key') return '🔑 Found a key! It opens a locked house';
+            if (event.fished) return `🎣 Fished up a ${event.giftType}!`;
+            return event.source === 'snowman' ? `🍪 Snowman loot: ${event.giftType}!` : null;
+        case 'snowmanKilled':
+            return `☃️ ${SNOWMAN_VARIANTS[event.variant].label} snowman broken! ${event.drops} gift${event.drops === 1 ? '' : 's'} dropped`;
+        case 'iceCracked':
+            if (!event.broken) return null;
+            return event.sunk > 0 ? `🧊 The ice shattered! ${event.sunk} gift${event.sunk === 1 ? '' : 's'} sank — click the water to fish` : '🧊 The pond ice shattered!';
+        case 'doorUnlocked':
+            return '🔓 Unlocked!';
+        case 'doorRattled':
+            return '🔒 Locked. The key is somewhere in the village';
+        case 'questAdvanced':
+            return `📜 Next: ${event.label}`;
+        case 'objectiveCompleted':
+            return `✔ ${event.label}`;
+        case 'achievementUnlocked':
+            return `🏆 Achievement unlocked: ${event.label}`;
+        case 'hintUsed':
+            return '🧭 A gift lights up…';
+        case 'playerFrosted':
+            return '❄️ Splat!';
+        default:
+            return null;
+    }
+};
+
+// Short-lived messages under the top HUD, fed by the event bus
+export const EventToasts: React.FC = () => {
+    const [toasts, setToasts] = useState<{ id: number, text: string }[]>([]);
+    const nextId = useRef(0);
+
+    useEffect(() => {
+        const timers = new Set<ReturnType<typeof setTimeout>>();
+        const stop = gameEvents.onAny(event => {
+            const text = describe(event);
+            if (!text) return;
+            const id = nextId.current++;
+            setToasts(prev => [...prev, { id, text }].slice(-MAX_TOASTS));
+            const timer = setTimeout(() => {
+                timers.delete(timer);
+                setToasts(prev => prev.filter(t => t.id !== id));
+            }, TOAST_SECONDS * 1000);
+            timers.add(timer);
+        });
+        return () => {
+            stop();
+            timers.forEach(clearTimeout);
+        };
+    }, []);
+
+    return (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 flex flex-col items-center gap-1">
+            {toasts.map(t => (
+                <div key={t.id} className="bg-black/60 backdrop-blur-sm px-4 py-1 rounded-full border border-white/10 text-sm text-white shadow">
+                    {t.text}
+                </div>
+            ))}
+        </div>
+    );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vector3Tuple } from '../types';
+import { FISH_BITE_SECONDS } from '../utils/pond';
+import { spawnEffect } from '../utils/vfx';
+
+const LINE_HEIGHT = 3; // How far up the line runs from the bobber
+
+interface FishingLineProps {
+    at: Vector3Tuple; // Where the line landed in the water
+    onReel: () => void; // Called once the line has been in long enough
+}
+
+// A bobber on the water that dips and is reeled in after a moment
+export const FishingLine: React.FC<FishingLineProps> = ({ at, onReel }) => {
+    const bobberRef = useRef<THREE.Group>(null);
+    const age = useRef(0);
+    const reeled = useRef(false);
+
+    useEffect(() => {
+        spawnEffect('crumbs', at, 0x4a90c8);
+    }, [at]);
+
+    useFrame((state, delta) => {
+        if (!bobberRef.current || reeled.current) return;
+        age.current += delta;
+        const t = age.current / FISH_BITE_SECONDS;
+        // Bobs gently, then dips hard just before the reel
+        bobberRef.current.position.y = t < 0.75 ? Math.sin(age.current * 8) * 0.03 : -0.12;
+        if (t >= 1) {
+            reeled.current = true;
+            spawnEffect('crumbs', at, 0x4a90c8);
+            onReel();
+        }
+    });
+
+    return (
+        <group position={at}>
+            <group ref={bobberRef}>
+                <mesh position={[0, 0.05, 0]}>
+                    <sphereGeometry args={[0.08, 10, 10]} />
+                    <meshStandardMaterial color="#ef4444" roughness={0.4} />
+                </mesh>
+                <mesh position={[0, LINE_HEIGHT / 2, 0]}>
+                    <cylinderGeometry args={[0.005, 0.005, LINE_HEIGHT, 4]} />
+                    <meshBasicMaterial color="#e5e7eb" />
+                </mesh>
+            </group>
+        </group>
+    );
+};
@@ -1,20 +1,194 @@
-import React, { useMemo, useRef } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas, useThree, useFrame } from '@react-three/fiber';
-import { Stars, OrbitControls, KeyboardControls, useKeyboardControls } from '@react-three/drei';
-import { EffectComposer, Bloom } from '@react-three/postprocessing';
+import { OrbitControls, KeyboardControls, useKeyboardControls } from '@react-three/drei';
+import { EffectComposer } from '@react-three/postprocessing';
+import { BlendFunction, BloomEffect } from 'postprocessing';
 import * as THREE from 'three';
 import { VoxelWorld, SnowParticles } from './VoxelAssets';
+import { Effects } from './Effects';
 import { Collectibles } from './Collectibles';
 import { Snowmen } from './Snowmen';
-import { Gift, Snowman } from '../types';
+import { Snowballs, ThrownSnowball } from './Snowballs';
+import { FishingLine } from './FishingLine';
+import { Sky } from './Sky';
+import { LevelEditor, LevelEditorProps } from './LevelEditor';
+import { Picker } from './Picker';
+import { Player } from './Player';
+import { DoorState, Gift, IceState, Snowball, Snowman, Vector3Tuple } from '../types';
+import { PickInput } from '../utils/huntReducer';
+import { CAMERA_SAMPLE_SECONDS, CameraPose, Quaternion } from '../utils/replay';
+import { WorldBuild } from '../utils/worldClient';
+import { Terrain } from '../utils/terrain';
+import { VOXEL_SIZE } from '../utils/worldGen';
+import { getColor } from '../utils/voxelGrid';
+import { isDiggable } from '../utils/dig';
+import { PickedEntity, PickResult, pickedId } from '../utils/raycast';
+import { ViewInfo, bearing } from '../utils/hints';
+import { AI_TICK } from '../utils/snowmanAI';
+import { Impact, Projectile, SCOOP_REACH, isScoopable, launchProjectile } from '../utils/throwing';
+import { spawnEffect } from '../utils/vfx';
+import { TimeOfDaySettings, getUrlTimeOfDay, lampsOnAt, lightingAt } from '../utils/timeOfDay';
+import { createRng, deriveSeed } from '../utils/random';
+import { WeatherController, WeatherKind, WeatherSettings, createWeather, getUrlWeather, pickReach } from '../utils/weather';
 
 interface GameSceneProps {
+    world: WorldBuild | null; // Null until the first build comes back from the worker
+    terrain: Terrain | null;
     gifts: Gift[];
     snowmen: Snowman[];
     onCollect: (id: number) => void;
     onSnowmanHit: (id: number) => void;
+    // Set while the dig tool is active; returns false if the voxel couldn't be dug
+    onDig?: (x: number, y: number, z: number) => boolean;
+    // When set, the scene shows the level editor handles instead of the hunt
+    editor?: LevelEditorProps;
+    // First-person walking instead of the orbit camera
+    walking?: boolean;
+    doors: DoorState[]; // By index into world.doors
+    onToggleDoor: (index: number) => void;
+    ice: IceState;
+    onCrackIce: (at: Vector3Tuple) => void; // `at` is where the hit landed on the ice
+    // Set while the hunt is live; reels in a line cast into the open water at `at`
+    onFish?: (at: Vector3Tuple) => void;
+    // Set while the hint radar is on; called a few times a second with where the camera is
+    onViewChange?: (view: ViewInfo) => void;
+    revealedGiftId?: number | null;
+    // Orbit target to glide to (e.g. from a minimap click); a new object starts a new flight
+    flyTo?: { x: number, z: number } | null;
+    // Set while the hunt is live; steps the snowmen's behaviour with the camera as their target
+    onSnowmenTick?: (dt: number, player: Vector3Tuple) => void;
+    snowballs: Snowball[];
+    onSnowballLand: (id: number, hitCamera: boolean) => void;
+    // Set while the throw tool is active; spends a snowball, false if none are left
+    onThrow?: () => boolean;
+    // Adds a snowball from a scooped snow surface; false if the pouch is already full
+    onScoop?: () => boolean;
+    // Set while a hunt is recorded: the camera pose a few times a second, and every click
+    onCameraSample?: (pose: CameraPose) => void;
+    onPickLog?: (pick: PickInput) => void;
+    // Set when playing back a recording: the camera follows this pose and nothing takes input
+    replayCamera?: () => CameraPose | null;
+    children?: React.ReactNode; // Extra scene content (e.g. replay markers)
+    // Where the day/night clock starts and how fast it runs; falls back to ?time= / ?dayLength=, then the local time
+    timeOfDay?: TimeOfDaySettings;
+    // How the weather starts and whether it changes; falls back to ?weather=, then wandering from light snow
+    weather?: WeatherSettings;
+    onWeatherChange?: (kind: WeatherKind) => void;
 }
 
+// Glides the orbit target (and the camera with it) to a new spot
+const CameraFlyer = ({ controlsRef, flyTo }: { controlsRef: React.RefObject<any>, flyTo: { x: number, z: number } }) => {
+    const { camera } = useThree();
+    const flight = useRef<{ from: THREE.Vector3, to: THREE.Vector3, t: number } | null>(null);
+
+    useEffect(() => {
+        const controls = controlsRef.current;
+        if (!controls) return;
+        const from = controls.target.clone();
+        flight.current = { from, to: new THREE.Vector3(flyTo.x, from.y, flyTo.z), t: 0 };
+    }, [flyTo, controlsRef]);
+
+    useFrame((state, delta) => {
+        const controls = controlsRef.current;
+        const current = flight.current;
+        if (!controls || !current) return;
+
+        current.t = Math.min(1, current.t + delta / 0.8);
+        const eased = 1 - Math.pow(1 - current.t, 3);
+        const next = current.from.clone().lerp(current.to, eased);
+        camera.position.add(next.clone().sub(controls.target));
+        controls.target.copy(next);
+        if (current.t >= 1) flight.current = null;
+    });
+    return null;
+};
+
+// Runs the weather's clock and reports each new kind as it sets in (once at the start, too)
+const WeatherDriver = ({ weather, onChange }: { weather: WeatherController, onChange?: (kind: WeatherKind) => void }) => {
+    useEffect(() => {
+        onChange?.(weather.kind());
+    }, [weather, onChange]);
+
+    useFrame((_, delta) => {
+        if (weather.step(Math.min(delta, 0.1))) onChange?.(weather.kind());
+    });
+
+    return null;
+};
+
+// Steps the snowmen at a fixed rate, independent of the frame rate
+const SnowmanDriver = ({ onTick }: { onTick: (dt: number, player: Vector3Tuple) => void }) => {
+    const elapsed = useRef(0);
+
+    useFrame((state, delta) => {
+        // Cap the catch-up so a backgrounded tab doesn't fast-forward the snowmen
+        elapsed.current = Math.min(elapsed.current + delta, AI_TICK * 5);
+        if (elapsed.current < AI_TICK) return;
+        elapsed.current -= AI_TICK;
+        const { position } = state.camera;
+        onTick(AI_TICK, [position.x, position.y, position.z]);
+    });
+
+    return null;
+};
+
+// Samples where the camera is for a recording
+const CameraSampler = ({ onSample }: { onSample: (pose: CameraPose) => void }) => {
+    const elapsed = useRef(Infinity);
+
+    useFrame((state, delta) => {
+        elapsed.current += delta;
+        if (elapsed.current < CAMERA_SAMPLE_SECONDS) return;
+        elapsed.current = 0;
+        const { position, quaternion } = state.camera;
+        onSample({ position: position.toArray() as Vector3Tuple, quaternion: quaternion.toArray() as Quaternion });
+    });
+    return null;
+};
+
+// Puts the camera wherever the replay says it was
+const ReplayCamera = ({ pose }: { pose: () => CameraPose | null }) => {
+    useFrame(state => {
+        const current = pose();
+        if (!current) return;
+        state.camera.position.set(...current.position);
+        state.camera.quaternion.set(...current.quaternion);
+    });
+    return null;
+};
+
+// Reports the orbit target (or the walker's position) and camera heading, throttled
+const ViewReporter = ({ onViewChange }: { onViewChange: (view: ViewInfo) => void }) => {
+    const elapsed = useRef(Infinity);
+    const last = useRef<ViewInfo | null>(null);
+    const forward = useMemo(() => new THREE.Vector3(), []);
+
+    useFrame((state, delta) => {
+        elapsed.current += delta;
+        if (elapsed.current < 0.25) return;
+        elapsed.current = 0;
+
+        const controls = state.controls as { target?: THREE.Vector3 } | null;
+        const from = controls?.target ?? state.camera.position;
+        state.camera.getWorldDirection(forward);
+        const { position } = state.camera;
+        const view: ViewInfo = {
+            target: [from.x, from.y, from.z],
+            position: [position.x, position.y, position.z],
+            heading: bearing(forward.x, forward.z),
+        };
+
+        // Standing still shouldn't re-render the HUD
+        const prev = last.current;
+        if (prev && Math.abs(prev.heading - view.heading) < 0.01
+            && Math.hypot(prev.target[0] - view.target[0], prev.target[2] - view.target[2]) < 0.05
+            && Math.hypot(prev.position[0] - view.position[0], prev.position[2] - view.position[2]) < 0.05) return;
+        last.current = view;
+        onViewChange(view);
+    });
+    return null;
+};
+
 // CameraRig now accepts controlsRef to ensure it accesses the correct instance
 const CameraRig = ({ controlsRef }: { controlsRef: React.RefObject<any> }) => {
     const { camera } = useThree();
@@ -55,116 +229,140 @@ const CameraRig = ({ controlsRef }: { controlsRef: React.RefObject<any> }) => {
     return null;
 };
 
-export const GameScene: React.FC<GameSceneProps> = ({ gifts, snowmen, onCollect, onSnowmanHit }) => {
+export const GameScene: React.FC<GameSceneProps> = ({
+    world, terrain, gifts, snowmen, onCollect, onSnowmanHit, onDig, editor, walking, doors, onToggleDoor, ice, onCrackIce, onFish,
+    onViewChange, revealedGiftId, flyTo, onSnowmenTick, snowballs, onSnowballLand, onThrow, onScoop,
+    onCameraSample, onPickLog, replayCamera, children, timeOfDay: timeOfDayProp,
+    weather: weatherProp, onWeatherChange,
+}) => {
     const controlsRef = useRef<any>(null);
+    // Where the orbit camera was looking; walking starts from here
+    const orbitTarget = useRef<[number, number]>([0, 0]);
+    const [thrown, setThrown] = useState<{ id: number, projectile: Projectile }[]>([]);
+    const thrownId = useRef(0);
+    const [cast, setCast] = useState<Vector3Tuple | null>(null); // Where the fishing line is in the water
 
-    // Calculate Environment Config based on Local Time
-    const config = useMemo(() => {
-        const hour = new Date().getHours();
-        
-        // Night (20:00 - 05:00)
-        if (hour >= 20 || hour < 5) {
-            return {
-                bg: '#150a15',
-                fogColor: '#150a15',
-                fogNear: 30, fogFar: 90,
-                ambientSky: '#2a1a3a', ambientGround: '#110500', ambientInt: 0.2,
-                dirColor: '#d0e0ff', dirInt: 0.4, dirPos: [-60, 80, -40], // Moon
-                starOpacity: 1.0,
-                isNight: true,
-                bloomThreshold: 1.0
-            };
-        }
-        // Sunrise (05:00 - 08:00)
-        if (hour >= 5 && hour < 8) {
-            return {
-                bg: '#ffcc99', // Peach
-                fogColor: '#ffcc99',
-                fogNear: 20, fogFar: 80,
-                ambientSky: '#ffddaa', ambientGround: '#443322', ambientInt: 0.5,
-                dirColor: '#ffaa00', dirInt: 0.6, dirPos: [60, 20, -40], // Low Sun
-                starOpacity: 0.0,
-                isNight: false, // Lamps off
-                bloomThreshold: 2.0
-            };
+    const [hovered, setHovered] = useState<PickedEntity | null>(null);
+    const doorAngles = useRef<number[]>([]);
+
+    // A fresh world comes with closed doors
+    useEffect(() => {
+        doorAngles.current = [];
+    }, [world?.world]);
+
+    const handleDig = (x: number, y: number, z: number) => {
+        if (!world || !onDig) return;
+        const color = getColor(world.world.grid, x, y, z); // Read before the voxel is gone
+        if (color === null || !onDig(x, y, z)) return;
+        spawnEffect('crumbs', [x * VOXEL_SIZE, y * VOXEL_SIZE, z * VOXEL_SIZE], color);
+    };
+
+
+    // Thrown snowballs land through the same handlers as clicks do
+    const handleImpact = (id: number, impact: Impact | null) => {
+        setThrown(prev => prev.filter(t => t.id !== id));
+        if (!impact) return;
+        if (impact.kind === 'entity') {
+            if (impact.entity.kind === 'gift') onCollect(impact.entity.gift.id);
+            else if (impact.entity.kind === 'snowman') onSnowmanHit(impact.entity.snowman.id);
+            return;
         }
-        // Day (08:00 - 16:00)
-        if (hour >= 8 && hour < 16) {
-            return {
-                bg: '#87CEEB', // Sky Blue
-                fogColor: '#aaccff',
-                fogNear: 40, fogFar: 120,
-                ambientSky: '#ffffff', ambientGround: '#ccccff', ambientInt: 0.7,
-                dirColor: '#ffffff', dirInt: 1.2, dirPos: [20, 100, 20], // High Sun
-                starOpacity: 0.0,
-                isNight: false,
-                bloomThreshold: 3.0 // Effectively no bloom
-            };
+        if (impact.hit.material === 'ice') onCrackIce(impact.hit.point);
+        spawnEffect('crumbs', impact.hit.point);
+    };
+
+    // One line in the water at a time
+    const startCast = (at: Vector3Tuple) => {
+        if (onFish && !cast) setCast(at);
+    };
+
+    // Whatever the picker hit decides the action: entities first, then the voxel behind them
+    const isActionable = ({ voxel, entity }: PickResult) => {
+        if (entity || onThrow) return true;
+        if (!voxel || !world) return false;
+        if (voxel.material === 'ice' || (voxel.material === 'water' && onFish)) return true;
+        return !!onDig && isDiggable(world.world.grid, voxel.voxel[0], voxel.voxel[1], voxel.voxel[2]);
+    };
+
+    const handleHover = (result: PickResult) => {
+        const next = result.entity;
+        setHovered(prev => {
+            return prev?.kind === next?.kind && (prev && pickedId(prev)) === (next && pickedId(next)) ? prev : next;
+        });
+        document.body.style.cursor = isActionable(result) ? 'pointer' : 'auto';
+    };
+
+    const handlePick = ({ voxel, entity }: PickResult, ray: THREE.Ray) => {
+        onPickLog?.({
+            kind: 'pick',
+            origin: ray.origin.toArray() as Vector3Tuple,
+            direction: ray.direction.toArray() as Vector3Tuple,
+            hit: entity ? entity.kind : voxel?.material ?? null,
+            id: entity && pickedId(entity),
+        });
+        // Doors open and close even with a snowball in hand
+        if (entity?.kind === 'door') {
+            onToggleDoor(entity.door);
+            return;
         }
-        // Sunset (16:00 - 18:00)
-        if (hour >= 16 && hour < 18) {
-            return {
-                bg: '#ffccb3', // Soft Peach
-                fogColor: '#ffccb3',
-                fogNear: 20, fogFar: 90,
-                ambientSky: '#eec0c8', // Soft Pink
-                ambientGround: '#5e4b5e', // Deep warm purple
-                ambientInt: 0.6,
-                dirColor: '#ffeebb', // Golden light
-                dirInt: 0.9, dirPos: [-60, 20, 40], // Low Sun
-                starOpacity: 0.2,
-                isNight: false, 
-                bloomThreshold: 1.5
-            };
+        if (onThrow) {
+            // Nearby snow is scooped up rather than thrown at, unless the pouch is full
+            if (!entity && voxel && world && voxel.distance <= SCOOP_REACH
+                && isScoopable(world.world.grid, voxel.voxel[0], voxel.voxel[1], voxel.voxel[2]) && onScoop?.()) {
+                spawnEffect('crumbs', voxel.point);
+                return;
+            }
+            if (!onThrow()) return;
+            const id = thrownId.current++;
+            const projectile = launchProjectile(ray.origin.toArray() as Vector3Tuple, ray.direction.toArray() as Vector3Tuple);
+            setThrown(prev => [...prev, { id, projectile }]);
+            return;
         }
-        // Evening (18:00 - 20:00)
-        return {
-            bg: '#2c1e31', // Deep Purple
-            fogColor: '#2c1e31',
-            fogNear: 30, fogFar: 90,
-            ambientSky: '#4a3a5a', ambientGround: '#221122', ambientInt: 0.3,
-            dirColor: '#aaaaff', dirInt: 0.3, dirPos: [-60, 60, -40], // Moon rising
-            starOpacity: 0.8,
-            isNight: true, // Lamps on
-            bloomThreshold: 1.0
-        };
-    }, []);
+        if (entity?.kind === 'gift') onCollect(entity.gift.id);
+        else if (entity?.kind === 'snowman') onSnowmanHit(entity.snowman.id);
+        else if (voxel?.material === 'ice') onCrackIce(voxel.point);
+        else if (voxel?.material === 'water') startCast(voxel.point);
+        else if (voxel) handleDig(voxel.voxel[0], voxel.voxel[1], voxel.voxel[2]);
+    };
 
-    // Helper to cast array to vector tuple for TS
-    const dirPos = config.dirPos as [number, number, number];
+    const timeOfDay = useMemo(() => timeOfDayProp ?? getUrlTimeOfDay(), [timeOfDayProp]);
+    // Seeded, so the same hunt (and its replay) sees the same weather
+    const weatherSeed = world?.world.seed ?? 0;
+    const weather = useMemo(
+        () => createWeather(weatherProp ?? getUrlWeather(), createRng(deriveSeed(weatherSeed, 'weather'))),
+        [weatherProp, weatherSeed],
+    );
+    const pickRange = useCallback(() => pickReach(weather.conditions()), [weather]);
+    // Lamps (and the tree's warm glow) follow the clock; see Sky
+    const [lampsOn, setLampsOn] = useState(() => lampsOnAt(timeOfDay.start));
+    // Made here (the same settings <Bloom> would build) so Sky can be handed the effect itself
+    const bloom = useMemo(() => new BloomEffect({
+        blendFunction: BlendFunction.ADD,
+        luminanceThreshold: lightingAt(timeOfDay.start).bloomThreshold,
+        mipmapBlur: true,
+        intensity: 0.8,
+        radius: 0.6,
+        levels: 6,
+    }), []);
+    useEffect(() => () => bloom.dispose(), [bloom]);
 
     const keyboardMap = useMemo(() => [
         { name: 'forward', keys: ['ArrowUp', 'w', 'W'] },
         { name: 'backward', keys: ['ArrowDown', 's', 'S'] },
         { name: 'left', keys: ['ArrowLeft', 'a', 'A'] },
         { name: 'right', keys: ['ArrowRight', 'd', 'D'] },
+        { name: 'jump', keys: ['Space'] },
     ], []);
 
   return (
     <KeyboardControls map={keyboardMap}>
         <Canvas shadows camera={{ fov: 40, position: [-50, 20, 50], near: 0.5 }} dpr={[1, 1.5]}>
-        {/* --- Environment --- */}
-        <color attach="background" args={[config.bg]} />
-        <fog attach="fog" args={[config.fogColor, config.fogNear, config.fogFar]} />
-        <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} opacity={config.starOpacity} />
+        {/* --- Environment & Lighting --- */}
+        <Sky timeOfDay={timeOfDay} weather={weather} bloom={bloom} onLampsChange={setLampsOn} />
+        <WeatherDriver weather={weather} onChange={onWeatherChange} />
 
-        {/* --- Lighting --- */}
-        <hemisphereLight intensity={config.ambientInt} groundColor={config.ambientGround} color={config.ambientSky} />
-        
-        {/* Main Directional Light (Sun/Moon) */}
-        <directionalLight 
-            position={dirPos} 
-            intensity={config.dirInt} 
-            color={config.dirColor} 
-            castShadow 
-            shadow-mapSize={[1024, 1024]} 
-            shadow-bias={-0.0001}
-        >
-            <orthographicCamera attach="shadow-camera" args={[-60, 60, 60, -60]} />
-        </directionalLight>
-
-        {/* Warm Point Light - Only active at night or evening to illuminate the tree area */}
-        {config.isNight && (
+        {/* Warm Point Light - Only active while the lamps are on, to illuminate the tree area */}
+        {lampsOn && (
             <pointLight 
                 position={[0, 15, 0]} 
                 intensity={2.0} 
@@ -175,29 +373,77 @@ export const GameScene: React.FC<GameSceneProps> = ({ gifts, snowmen, onCollect,
         )}
 
         {/* --- Voxel World --- */}
-        <VoxelWorld isNight={config.isNight} />
-        <SnowParticles />
+        {world && (
+            <VoxelWorld
+                world={world.world}
+                meshes={world.chunks}
+                isNight={lampsOn}
+                ice={ice}
+                doors={doors}
+                doorAngles={doorAngles}
+                hoveredDoor={hovered?.kind === 'door' ? hovered.door : null}
+            />
+        )}
+        <Effects chimneys={world?.world.chimneys ?? []} />
+        <SnowParticles weather={weather} />
 
         {/* --- Gameplay --- */}
-        <Snowmen snowmen={snowmen} onHit={onSnowmanHit} />
-        <Collectibles gifts={gifts} onCollect={onCollect} />
+        {editor ? (
+            <LevelEditor {...editor} />
+        ) : (
+            <>
+                <Snowmen snowmen={snowmen} hoveredId={hovered?.kind === 'snowman' ? hovered.snowman.id : null} />
+                <Collectibles gifts={gifts} hoveredId={hovered?.kind === 'gift' ? hovered.gift.id : null} revealedId={revealedGiftId} />
+                <Snowballs snowballs={snowballs} onLand={onSnowballLand} />
+                {world && thrown.map(t => (
+                    <ThrownSnowball
+                        key={t.id}
+                        projectile={t.projectile}
+                        grid={world.world.grid}
+                        gifts={gifts}
+                        snowmen={snowmen}
+                        onImpact={impact => handleImpact(t.id, impact)}
+                    />
+                ))}
+                {cast && (
+                    <FishingLine
+                        at={cast}
+                        onReel={() => {
+                            setCast(null);
+                            onFish?.(cast);
+                        }}
+                    />
+                )}
+                {onSnowmenTick && <SnowmanDriver onTick={onSnowmenTick} />}
+                {onViewChange && <ViewReporter onViewChange={onViewChange} />}
+                {onCameraSample && <CameraSampler onSample={onCameraSample} />}
+                {world && !replayCamera && <Picker grid={world.world.grid} gifts={gifts} snowmen={snowmen} doors={world.world.doors} doorAngles={doorAngles} onHover={handleHover} onPick={handlePick} reach={pickRange} />}
+            </>
+        )}
+
+        {children}
 
         {/* --- Post Processing --- */}
         <EffectComposer disableNormalPass>
-            <Bloom 
-                luminanceThreshold={config.bloomThreshold} 
-                mipmapBlur 
-                intensity={0.8}
-                radius={0.6}
-                levels={6} 
-            />
+            <primitive object={bloom} />
         </EffectComposer>
 
         {/* --- Controls --- */}
+        {replayCamera ? (
+            <ReplayCamera pose={replayCamera} />
+        ) : walking && world && terrain ? (
+            <Player terrain={terrain} doors={world.world.doors} doorAngles={doorAngles} spawn={orbitTarget.current} />
+        ) : (
+        <>
         <CameraRig controlsRef={controlsRef} />
+        {flyTo && <CameraFlyer controlsRef={controlsRef} flyTo={flyTo} />}
         <OrbitControls 
             ref={controlsRef}
             makeDefault
+            onChange={() => {
+                const target = controlsRef.current?.target;
+                if (target) orbitTarget.current = [target.x, target.z];
+            }}
             enablePan={true} 
             enableZoom={true} 
             enableRotate={true}
@@ -222,6 +468,8 @@ export const GameScene: React.FC<GameSceneProps> = ({ gifts, snowmen, onCollect,
             screenSpacePanning={false} // Better for walking around
             target={[0, 5, 0]} 
         />
+        </>
+        )}
         </Canvas>
     </KeyboardControls>
   );
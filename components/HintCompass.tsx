@@ -0,0 +1,78 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DoorState, Gift } from '../types';
+import { HINT_CHARGES, ViewInfo, WARMTH_STEP, Warmth, compassAngle, findNearestGift } from '../utils/hints';
+
+interface HintCompassProps {
+    gifts: Gift[];
+    doors: DoorState[]; // Gifts behind a locked door aren't pointed at
+    view: ViewInfo | null; // Null until the scene has reported where the camera is
+    hintsUsed: number;
+    revealing: boolean; // A reveal is currently showing
+    onReveal: (giftId: number) => void;
+}
+
+// HUD radar: arrow to the nearest gift, a warmer/colder pulse, and the reveal charges
+export const HintCompass: React.FC<HintCompassProps> = ({ gifts, doors, view, hintsUsed, revealing, onReveal }) => {
+    const nearest = view ? findNearestGift(gifts, doors, view.target) : null;
+    const [warmth, setWarmth] = useState<{ kind: Warmth, key: number } | null>(null);
+
+    // Distance the last pulse was measured from, per target gift
+    const reference = useRef<{ giftId: number, distance: number } | null>(null);
+
+    useEffect(() => {
+        if (!nearest) {
+            reference.current = null;
+            return;
+        }
+        const ref = reference.current;
+        if (!ref || ref.giftId !== nearest.gift.id) {
+            reference.current = { giftId: nearest.gift.id, distance: nearest.distance };
+            return;
+        }
+        const change = nearest.distance - ref.distance;
+        if (Math.abs(change) < WARMTH_STEP) return;
+        reference.current = { giftId: nearest.gift.id, distance: nearest.distance };
+        setWarmth(prev => ({ kind: change < 0 ? 'warmer' : 'colder', key: (prev?.key ?? 0) + 1 }));
+    }, [nearest?.gift.id, nearest?.distance]);
+
+    // The pulse fades out after a moment
+    useEffect(() => {
+        if (!warmth) return;
+        const timer = setTimeout(() => setWarmth(null), 1500);
+        return () => clearTimeout(timer);
+    }, [warmth]);
+
+    const hintsLeft = HINT_CHARGES - hintsUsed;
+    const angle = nearest && view ? compassAngle(view, nearest.gift.position) : 0;
+
+    return (
+        <div className="bg-black/50 backdrop-blur-md p-3 rounded-xl border border-white/20 shadow-lg flex flex-col items-center gap-2 min-w-[120px]">
+            <span className="text-xs uppercase tracking-wider text-gray-400">Radar</span>
+            <div className="relative w-16 h-16 rounded-full border border-white/20 bg-black/30 flex items-center justify-center">
+                {nearest ? (
+                    <div className="text-2xl text-yellow-300 transition-transform duration-200" style={{ transform: `rotate(${angle}rad)` }}>
+                        ▲
+                    </div>
+                ) : (
+                    <span className="text-gray-500">—</span>
+                )}
+                {warmth && (
+                    <div
+                        key={warmth.key}
+                        className={`absolute inset-0 rounded-full animate-ping ${warmth.kind === 'warmer' ? 'bg-red-500/40' : 'bg-sky-400/40'}`}
+                    />
+                )}
+            </div>
+            <span className="text-xs font-mono text-gray-300 h-4">
+                {warmth ? (warmth.kind === 'warmer' ? '🔥 Warmer' : '❄️ Colder') : nearest ? `${Math.round(nearest.distance)} m` : ''}
+            </span>
+            <button
+                onClick={() => nearest && onReveal(nearest.gift.id)}
+                disabled={!nearest || hintsLeft <= 0 || revealing}
+                className="pointer-events-auto px-3 py-1 rounded-full border border-yellow-400/50 text-xs text-yellow-300 hover:bg-yellow-400/10 transition-colors disabled:opacity-40"
+            >
+                💡 Reveal ({hintsLeft})
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { EditorSelection, EditorTool, LevelDefinition, Point2 } from '../types';
+import { VOXEL_SIZE, WORLD_RADIUS } from '../utils/worldGen';
+import { addGiftSpawn, addPath, addSnowmanSpot, moveSelection } from '../utils/levelEditing';
+
+export interface LevelEditorProps {
+    level: LevelDefinition;
+    selection: EditorSelection;
+    tool: EditorTool;
+    onSelect: (selection: EditorSelection) => void;
+    onChange: (level: LevelDefinition) => void;
+}
+
+// Active drag: what is being moved and where it currently is (voxel units)
+interface DragState {
+    selection: EditorSelection;
+    pathEnd: 'from' | 'to';
+    x: number;
+    z: number;
+}
+
+const GROUND_PLANE = new THREE.Plane(new THREE.Vector3(0, 1, 0), 0);
+const HANDLE_COLOR = '#22d3ee';
+const SELECTED_COLOR = '#facc15';
+
+const sameSelection = (a: EditorSelection, b: EditorSelection) => {
+    if (!a || !b || a.kind !== b.kind) return false;
+    return !('index' in a) || ('index' in b && a.index === b.index);
+};
+
+const isSelected = (selection: EditorSelection, kind: string, index?: number) => {
+    if (!selection || selection.kind !== kind) return false;
+    return index === undefined || ('index' in selection && selection.index === index);
+};
+
+// Handles are drawn on top of the voxels so they stay grabbable under hills and roofs
+const HandleMaterial: React.FC<{ color: string, opacity?: number }> = ({ color, opacity = 0.45 }) => (
+    <meshBasicMaterial color={color} transparent opacity={opacity} depthTest={false} />
+);
+
+export const LevelEditor: React.FC<LevelEditorProps> = ({ level, selection, tool, onSelect, onChange }) => {
+    const controls = useThree(state => state.controls) as (THREE.EventDispatcher & { enabled: boolean }) | null;
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [pathStart, setPathStart] = useState<Point2 | null>(null);
+
+    // A half-drawn path is dropped when switching tools
+    useEffect(() => setPathStart(null), [tool]);
+
+    // Project the pointer ray onto the voxel Y=0 plane and snap to the voxel grid
+    const toVoxel = (ray: THREE.Ray): Point2 | null => {
+        const hit = ray.intersectPlane(GROUND_PLANE, new THREE.Vector3());
+        if (!hit) return null;
+        return [Math.round(hit.x / VOXEL_SIZE), Math.round(hit.z / VOXEL_SIZE)];
+    };
+
+    const startDrag = (e: any, target: EditorSelection, x: number, z: number, pathEnd: 'from' | 'to' = 'from') => {
+        if (tool !== 'select') return;
+        e.stopPropagation();
+        e.target.setPointerCapture(e.pointerId);
+        if (controls) controls.enabled = false;
+        onSelect(target);
+        setDrag({ selection: target, pathEnd, x, z });
+    };
+
+    const moveDrag = (e: any) => {
+        if (!drag) return;
+        const point = toVoxel(e.ray);
+        if (point) setDrag({ ...drag, x: point[0], z: point[1] });
+    };
+
+    // The world only regenerates once the handle is released
+    const endDrag = (e: any) => {
+        if (!drag) return;
+        e.target.releasePointerCapture(e.pointerId);
+        if (controls) controls.enabled = true;
+        onChange(moveSelection(level, drag.selection, drag.x, drag.z, drag.pathEnd));
+        setDrag(null);
+    };
+
+    const dragHandlers = { onPointerMove: moveDrag, onPointerUp: endDrag };
+
+    // Position of an item, replaced by the drag position while it is being moved
+    const livePoint = (target: EditorSelection, x: number, z: number, pathEnd: 'from' | 'to' = 'from'): Point2 => {
+        if (!drag || !sameSelection(drag.selection, target) || drag.pathEnd !== pathEnd) return [x, z];
+        return [drag.x, drag.z];
+    };
+
+    const handleGroundClick = (e: any) => {
+        if (e.delta > 4) return; // Camera pan, not a click
+        const point = toVoxel(e.ray);
+        if (!point) return;
+        e.stopPropagation();
+
+        if (tool === 'select') {
+            onSelect(null);
+        } else if (tool === 'gift') {
+            onChange(addGiftSpawn(level, point[0], point[1]));
+            onSelect({ kind: 'gift', index: level.spawns.gifts.fixed?.length ?? 0 });
+        } else if (tool === 'snowman') {
+            onChange(addSnowmanSpot(level, point[0], point[1]));
+            onSelect({ kind: 'snowman', index: level.spawns.snowmen.spots.length });
+        } else if (tool === 'path') {
+            if (!pathStart) {
+                setPathStart(point);
+                return;
+            }
+            onChange(addPath(level, pathStart, point));
+            onSelect({ kind: 'path', index: level.paths.length });
+            setPathStart(null);
+        }
+    };
+
+    const groundSize = (WORLD_RADIUS * 2 + 2) * VOXEL_SIZE;
+    const pondSelection: EditorSelection = useMemo(() => ({ kind: 'pond' }), []);
+    const [pondX, pondZ] = livePoint(pondSelection, level.pond.x, level.pond.z);
+
+    return (
+        <group>
+            {/* Invisible ground catcher for placement clicks */}
+            <mesh rotation={[-Math.PI / 2, 0, 0]} onClick={handleGroundClick}>
+                <planeGeometry args={[groundSize, groundSize]} />
+                <meshBasicMaterial visible={false} />
+            </mesh>
+
+            {/* Houses */}
+            {level.buildings.map((b, i) => {
+                const target: EditorSelection = { kind: 'building', index: i };
+                const [x, z] = livePoint(target, b.x, b.z);
+                const spanX = (b.rotation === 0 ? b.width : b.depth) + 1;
+                const spanZ = (b.rotation === 0 ? b.depth : b.width) + 1;
+                const height = (b.height + 8) * VOXEL_SIZE;
+                return (
+                    <mesh
+                        key={b.id}
+                        position={[x * VOXEL_SIZE, height / 2, z * VOXEL_SIZE]}
+                        renderOrder={10}
+                        onPointerDown={(e) => startDrag(e, target, b.x, b.z)}
+                        {...dragHandlers}
+                    >
+                        <boxGeometry args={[spanX * VOXEL_SIZE, height, spanZ * VOXEL_SIZE]} />
+                        <HandleMaterial color={isSelected(selection, 'building', i) ? SELECTED_COLOR : HANDLE_COLOR} opacity={0.25} />
+                    </mesh>
+                );
+            })}
+
+            {/* Pond */}
+            <mesh
+                position={[pondX * VOXEL_SIZE, 0.1, pondZ * VOXEL_SIZE]}
+                renderOrder={10}
+                onPointerDown={(e) => startDrag(e, pondSelection, level.pond.x, level.pond.z)}
+                {...dragHandlers}
+            >
+                <cylinderGeometry args={[level.pond.radius * VOXEL_SIZE, level.pond.radius * VOXEL_SIZE, 0.2, 32]} />
+                <HandleMaterial color={isSelected(selection, 'pond') ? SELECTED_COLOR : '#60a5fa'} opacity={0.3} />
+            </mesh>
+
+            {/* Paths: a clickable strip plus a draggable handle on each end */}
+            {level.paths.map((p, i) => {
+                const target: EditorSelection = { kind: 'path', index: i };
+                const from = livePoint(target, p.from[0], p.from[1], 'from');
+                const to = livePoint(target, p.to[0], p.to[1], 'to');
+                const dx = to[0] - from[0];
+                const dz = to[1] - from[1];
+                const length = Math.max(0.5, Math.sqrt(dx * dx + dz * dz));
+                const color = isSelected(selection, 'path', i) ? SELECTED_COLOR : '#f97316';
+                return (
+                    <group key={i}>
+                        <mesh
+                            position={[(from[0] + dx / 2) * VOXEL_SIZE, 0.15, (from[1] + dz / 2) * VOXEL_SIZE]}
+                            rotation={[0, -Math.atan2(dz, dx), 0]}
+                            renderOrder={11}
+                            onClick={(e) => { if (tool === 'select') { e.stopPropagation(); onSelect(target); } }}
+                        >
+                            <boxGeometry args={[length * VOXEL_SIZE, 0.05, ((p.width ?? 1.5) * 2 + 1) * VOXEL_SIZE]} />
+                            <HandleMaterial color={color} opacity={0.5} />
+                        </mesh>
+                        {(['from', 'to'] as const).map(end => {
+                            const [ex, ez] = end === 'from' ? from : to;
+                            return (
+                                <mesh
+                                    key={end}
+                                    position={[ex * VOXEL_SIZE, 0.3, ez * VOXEL_SIZE]}
+                                    renderOrder={12}
+                                    onPointerDown={(e) => startDrag(e, target, p[end][0], p[end][1], end)}
+                                    {...dragHandlers}
+                                >
+                                    <sphereGeometry args={[0.35, 12, 12]} />
+                                    <HandleMaterial color={color} opacity={0.8} />
+                                </mesh>
+                            );
+                        })}
+                    </group>
+                );
+            })}
+
+            {/* First click of a new path */}
+            {pathStart && (
+                <mesh position={[pathStart[0] * VOXEL_SIZE, 0.3, pathStart[1] * VOXEL_SIZE]} renderOrder={12}>
+                    <sphereGeometry args={[0.4, 12, 12]} />
+                    <HandleMaterial color={SELECTED_COLOR} opacity={0.9} />
+                </mesh>
+            )}
+
+            {/* Fixed gift spawns */}
+            {(level.spawns.gifts.fixed ?? []).map((g, i) => {
+                const target: EditorSelection = { kind: 'gift', index: i };
+                const [x, z] = livePoint(target, g.x, g.z);
+                return (
+                    <mesh
+                        key={i}
+                        position={[x * VOXEL_SIZE, 1.2, z * VOXEL_SIZE]}
+                        renderOrder={12}
+                        onPointerDown={(e) => startDrag(e, target, g.x, g.z)}
+                        {...dragHandlers}
+                    >
+                        <octahedronGeometry args={[0.5, 0]} />
+                        <HandleMaterial color={isSelected(selection, 'gift', i) ? SELECTED_COLOR : '#f472b6'} opacity={0.85} />
+                    </mesh>
+                );
+            })}
+
+            {/* Snowman spawn spots */}
+            {level.spawns.snowmen.spots.map((s, i) => {
+                const target: EditorSelection = { kind: 'snowman', index: i };
+                const [x, z] = livePoint(target, s[0], s[1]);
+                return (
+                    <mesh
+                        key={i}
+                        position={[x * VOXEL_SIZE, 1.5, z * VOXEL_SIZE]}
+                        renderOrder={12}
+                        onPointerDown={(e) => startDrag(e, target, s[0], s[1])}
+                        {...dragHandlers}
+                    >
+                        <coneGeometry args={[0.5, 1.5, 12]} />
+                        <HandleMaterial color={isSelected(selection, 'snowman', i) ? SELECTED_COLOR : '#e2e8f0'} opacity={0.85} />
+                    </mesh>
+                );
+            })}
+        </group>
+    );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { Gift, Snowman } from '../types';
+import { Terrain } from '../utils/terrain';
+import { VOXEL_SIZE } from '../utils/worldGen';
+import { renderMinimap } from '../utils/minimap';
+import { SNOWMAN_VARIANTS } from '../utils/snowmanVariants';
+import { ViewInfo } from '../utils/hints';
+
+interface MinimapProps {
+    terrain: Terrain;
+    revision: unknown; // Changes whenever the voxels do (e.g. the chunk list after a dig)
+    view: ViewInfo | null;
+    snowmen: Snowman[];
+    gifts: Gift[];
+    showFound: boolean; // Mark where already collected gifts were
+    onNavigate: (x: number, z: number) => void; // World X/Z that was clicked
+}
+
+const SIZE = 180; // Pixels on screen
+const VIEW_CONE = Math.PI / 5; // Half-angle
+const VIEW_LENGTH = 24; // Pixels
+
+// Corner map: island picture, camera and view cone, snowmen and (optionally) found gifts
+export const Minimap: React.FC<MinimapProps> = ({ terrain, revision, view, snowmen, gifts, showFound, onNavigate }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    // The island picture, redrawn only when the voxels change
+    const base = useMemo(() => {
+        const image = renderMinimap(terrain);
+        const canvas = document.createElement('canvas');
+        canvas.width = image.width;
+        canvas.height = image.height;
+        canvas.getContext('2d')?.putImageData(new ImageData(image.pixels, image.width, image.height), 0, 0);
+        return { canvas, image };
+    }, [terrain, revision]);
+
+    const scale = SIZE / base.image.width;
+    const toMap = (x: number, z: number): [number, number] => [
+        (x / VOXEL_SIZE - base.image.minX + 0.5) * scale,
+        (z / VOXEL_SIZE - base.image.minZ + 0.5) * scale,
+    ];
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+        ctx.clearRect(0, 0, SIZE, SIZE);
+        ctx.imageSmoothingEnabled = false;
+        ctx.drawImage(base.canvas, 0, 0, SIZE, SIZE);
+
+        const dot = (x: number, z: number, radius: number, color: string) => {
+            const [px, pz] = toMap(x, z);
+            ctx.beginPath();
+            ctx.arc(px, pz, radius, 0, Math.PI * 2);
+            ctx.fillStyle = color;
+            ctx.fill();
+            ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+            ctx.stroke();
+        };
+
+        if (showFound) gifts.forEach(g => g.collected && dot(g.position[0], g.position[2], 2, '#4ade80'));
+        snowmen.forEach(s => !s.isDead && dot(s.position[0], s.position[2], 2 + SNOWMAN_VARIANTS[s.variant].scale, s.variant === 'golden' ? '#fde047' : '#e0f2fe'));
+
+        if (view) {
+            // View cone from the camera, along its heading (0 = up, clockwise)
+            const [cx, cz] = toMap(view.position[0], view.position[2]);
+            const a = view.heading - Math.PI / 2;
+            ctx.beginPath();
+            ctx.moveTo(cx, cz);
+            ctx.arc(cx, cz, VIEW_LENGTH, a - VIEW_CONE, a + VIEW_CONE);
+            ctx.closePath();
+            ctx.fillStyle = 'rgba(250, 204, 21, 0.3)';
+            ctx.fill();
+            dot(view.position[0], view.position[2], 3, '#facc15');
+            dot(view.target[0], view.target[2], 2, '#f87171');
+        }
+    });
+
+    const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const px = ((e.clientX - rect.left) / rect.width) * SIZE;
+        const pz = ((e.clientY - rect.top) / rect.height) * SIZE;
+        onNavigate(
+            (px / scale + base.image.minX - 0.5) * VOXEL_SIZE,
+            (pz / scale + base.image.minZ - 0.5) * VOXEL_SIZE,
+        );
+    };
+
+    return (
+        <canvas
+            ref={canvasRef}
+            width={SIZE}
+            height={SIZE}
+            onClick={handleClick}
+            title="Click to fly there"
+            className="pointer-events-auto cursor-crosshair rounded-full border-2 border-white/30 bg-sky-950/60 shadow-lg"
+        />
+    );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { ObjectiveStatus } from '../utils/objectives';
+
+interface ObjectiveListProps {
+    objectives: ObjectiveStatus[];
+}
+
+// The level's objectives with their progress; a quest shows the step it's on
+export const ObjectiveList: React.FC<ObjectiveListProps> = ({ objectives }) => (
+    <ul className="text-xs space-y-0.5">
+        {objectives.map(o => (
+            <li key={o.id} className={o.done ? 'text-green-400' : 'text-gray-200'}>
+                <div className="flex justify-between gap-3">
+                    <span>{o.done ? '✔' : '○'} {o.label}</span>
+                    <span className="font-mono text-gray-400">{o.step ? `${o.step.index + 1}/${o.step.total}` : `${o.current}/${o.target}`}</span>
+                </div>
+                {o.step && (
+                    <div className="flex justify-between gap-3 pl-4 text-gray-400">
+                        <span>↳ {o.step.label}</span>
+                        {o.target > 1 && <span className="font-mono">{o.current}/{o.target}</span>}
+                    </div>
+                )}
+            </li>
+        ))}
+    </ul>
+);
@@ -0,0 +1,78 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Gift, Snowman, Vector3Tuple } from '../types';
+import { VoxelGrid } from '../utils/voxelGrid';
+import { DoorData } from '../utils/worldGen';
+import { PickResult, pick } from '../utils/raycast';
+
+interface PickerProps {
+    grid: VoxelGrid;
+    gifts: Gift[];
+    snowmen: Snowman[];
+    doors: DoorData[];
+    doorAngles: React.MutableRefObject<number[]>; // Current hinge angles, so an open door is picked where it swung to
+    onHover: (result: PickResult) => void;
+    // `ray` is the aim the pick was made along (thrown snowballs follow it)
+    onPick: (result: PickResult, ray: THREE.Ray) => void;
+    reach?: () => number; // How far away a pick can land right now (bad weather shortens it)
+}
+
+// Pixels the pointer may travel between down and up and still count as a click (not a pan)
+const CLICK_SLOP = 5;
+
+// Turns pointer input into voxel-grid picks, instead of intersecting the scene graph
+export const Picker: React.FC<PickerProps> = ({ grid, gifts, snowmen, doors, doorAngles, onHover, onPick, reach }) => {
+    const { camera, gl } = useThree();
+    const raycaster = useMemo(() => new THREE.Raycaster(), []);
+    const ndc = useMemo(() => new THREE.Vector2(), []);
+
+    // Listeners are bound once; they always read the latest props through this ref
+    const latest = useRef({ grid, gifts, snowmen, doors, onHover, onPick, reach });
+    latest.current = { grid, gifts, snowmen, doors, onHover, onPick, reach };
+
+    useEffect(() => {
+        const canvas = gl.domElement;
+        let downAt: [number, number] | null = null;
+
+        const pickAt = (e: PointerEvent): PickResult => {
+            // While walking the pointer is locked and aims through the centre of the screen
+            if (document.pointerLockElement === canvas) {
+                ndc.set(0, 0);
+            } else {
+                const rect = canvas.getBoundingClientRect();
+                ndc.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+            }
+            raycaster.setFromCamera(ndc, camera);
+            const { origin, direction } = raycaster.ray;
+            const { grid, gifts, snowmen, doors, reach } = latest.current;
+            return pick(grid, origin.toArray() as Vector3Tuple, direction.toArray() as Vector3Tuple, gifts, snowmen, reach?.(), doors, doorAngles.current);
+        };
+
+        const handleMove = (e: PointerEvent) => latest.current.onHover(pickAt(e));
+        const handleDown = (e: PointerEvent) => {
+            downAt = e.button === 0 ? [e.clientX, e.clientY] : null;
+        };
+        const handleUp = (e: PointerEvent) => {
+            if (!downAt || e.button !== 0) return;
+            const moved = Math.hypot(e.clientX - downAt[0], e.clientY - downAt[1]);
+            downAt = null;
+            if (moved <= CLICK_SLOP) {
+                const result = pickAt(e);
+                latest.current.onPick(result, raycaster.ray.clone());
+            }
+        };
+
+        canvas.addEventListener('pointermove', handleMove);
+        canvas.addEventListener('pointerdown', handleDown);
+        canvas.addEventListener('pointerup', handleUp);
+        return () => {
+            canvas.removeEventListener('pointermove', handleMove);
+            canvas.removeEventListener('pointerdown', handleDown);
+            canvas.removeEventListener('pointerup', handleUp);
+            document.body.style.cursor = 'auto';
+        };
+    }, [gl, camera, raycaster, ndc, doorAngles]);
+
+    return null;
+};
@@ -1,7 +1,89 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { PointerLockControls, useKeyboardControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Vector3Tuple } from '../types';
+import { DoorData, VOXEL_SIZE } from '../utils/worldGen';
+import { Terrain } from '../utils/terrain';
+import { Body, BodyShape, doorBlocker, findStandingSpot, moveBody } from '../utils/collision';
 
-// This component is no longer used in the OrbitControls version of the game.
-// Keeping file to avoid build errors if referenced elsewhere, but it renders nothing.
-export const Player: React.FC<any> = () => {
-  return null;
-};
\ No newline at end of file
+interface PlayerProps {
+    terrain: Terrain;
+    doors: DoorData[];
+    doorAngles: React.MutableRefObject<number[]>; // Current hinge angles, kept up to date by the doors
+    spawn: [number, number]; // World X/Z to start from; the nearest free spot on the ground is used
+}
+
+const SHAPE: BodyShape = { radius: 0.3, height: 1.45, stepHeight: VOXEL_SIZE };
+const EYE_HEIGHT = 1.3; // The body is just short enough to fit through the 7-voxel doorways
+const WALK_SPEED = 4;
+const JUMP_SPEED = 6;
+const GRAVITY = 20;
+const MAX_FALL_SPEED = 30;
+const FALL_LIMIT = -20; // Below this you have walked off the island; back to the spawn
+
+// First-person walker: pointer-lock look, WASD to move, Space to jump
+export const Player: React.FC<PlayerProps> = ({ terrain, doors, doorAngles, spawn }) => {
+    const { camera } = useThree();
+    const [, get] = useKeyboardControls();
+
+    const blockers = () => doors.map((door, i) => doorBlocker(door, doorAngles.current[i] ?? 0));
+
+    const start = useMemo<Vector3Tuple>(() => {
+        const groundAt = (x: number, z: number) => {
+            const ground = terrain.getGroundAtWorld(x, z);
+            return ground ? (ground.y + 0.5) * VOXEL_SIZE : null;
+        };
+        return findStandingSpot(terrain.grid, spawn, SHAPE, groundAt, blockers()) ?? [0, 10, 0];
+        // Only where the walk starts; later terrain edits shouldn't teleport you
+    }, [terrain]);
+
+    const body = useRef<Body>({ position: [...start], velocity: [0, 0, 0], onGround: false });
+
+    // Close walls would clip through the orbit camera's near plane
+    useEffect(() => {
+        const perspective = camera as THREE.PerspectiveCamera;
+        const near = perspective.near;
+        perspective.near = 0.05;
+        perspective.updateProjectionMatrix();
+        return () => {
+            perspective.near = near;
+            perspective.updateProjectionMatrix();
+        };
+    }, [camera]);
+
+    useFrame((state, delta) => {
+        const dt = Math.min(delta, 0.05); // Don't leap through walls after a stalled frame
+        const { forward, backward, left, right, jump } = get();
+        const current = body.current;
+
+        const forwardDir = new THREE.Vector3();
+        camera.getWorldDirection(forwardDir);
+        forwardDir.y = 0;
+        forwardDir.normalize();
+        const rightDir = new THREE.Vector3().crossVectors(forwardDir, camera.up).normalize();
+
+        const moveDir = new THREE.Vector3();
+        if (forward) moveDir.add(forwardDir);
+        if (backward) moveDir.sub(forwardDir);
+        if (right) moveDir.add(rightDir);
+        if (left) moveDir.sub(rightDir);
+        if (moveDir.lengthSq() > 0) moveDir.normalize().multiplyScalar(WALK_SPEED);
+
+        current.velocity[0] = moveDir.x;
+        current.velocity[2] = moveDir.z;
+        if (jump && current.onGround) current.velocity[1] = JUMP_SPEED;
+        current.velocity[1] = Math.max(current.velocity[1] - GRAVITY * dt, -MAX_FALL_SPEED);
+
+        moveBody(terrain.grid, current, SHAPE, dt, blockers());
+
+        if (current.position[1] < FALL_LIMIT) {
+            current.position = [...start];
+            current.velocity = [0, 0, 0];
+        }
+
+        camera.position.set(current.position[0], current.position[1] + EYE_HEIGHT, current.position[2]);
+    });
+
+    return <PointerLockControls makeDefault selector="canvas" />;
+};
@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { ACHIEVEMENTS, readUnlocks } from '../utils/achievements';
+import { readPlayerName } from '../utils/leaderboard';
+
+interface ProfileScreenProps {
+    onClose: () => void;
+}
+
+// Every achievement, unlocked ones first with the day they were earned
+export const ProfileScreen: React.FC<ProfileScreenProps> = ({ onClose }) => {
+    const unlocks = useMemo(readUnlocks, []);
+    const name = useMemo(readPlayerName, []);
+    const sorted = useMemo(() => [...ACHIEVEMENTS].sort((a, b) => Number(!unlocks[a.id]) - Number(!unlocks[b.id])), [unlocks]);
+    const unlockedCount = ACHIEVEMENTS.filter(a => unlocks[a.id]).length;
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto backdrop-blur-md z-50">
+            <div className="w-full max-w-lg space-y-5 p-8 border border-white/10 rounded-2xl bg-gray-900/90 shadow-2xl">
+                <div className="text-center">
+                    <h2 className="text-4xl font-bold text-yellow-300">🏆 {name || 'Your Profile'}</h2>
+                    <p className="text-sm text-gray-400 mt-1">{unlockedCount}/{ACHIEVEMENTS.length} achievements unlocked</p>
+                </div>
+
+                <ul className="bg-black/30 rounded-lg p-4 text-sm space-y-2 max-h-[50vh] overflow-y-auto">
+                    {sorted.map(achievement => {
+                        const unlockedAt = unlocks[achievement.id];
+                        return (
+                            <li key={achievement.id} className={`flex items-center gap-3 ${unlockedAt ? 'text-gray-100' : 'text-gray-500'}`}>
+                                <span className={`text-2xl ${unlockedAt ? '' : 'grayscale opacity-40'}`}>{achievement.icon}</span>
+                                <div className="flex-1">
+                                    <span className="block font-bold">{achievement.label}</span>
+                                    <span className="block text-xs">{achievement.description}</span>
+                                </div>
+                                <span className="text-xs font-mono text-gray-400">
+                                    {unlockedAt ? new Date(unlockedAt).toLocaleDateString() : '🔒'}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+
+                <div className="flex justify-center">
+                    <button
+                        onClick={onClose}
+                        className="px-8 py-3 bg-white text-green-900 hover:bg-gray-100 rounded-full transition-colors font-bold shadow-xl"
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
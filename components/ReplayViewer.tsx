@@ -0,0 +1,285 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Line } from '@react-three/drei';
+import { GameScene } from './GameScene';
+import { GameState, Vector3Tuple } from '../types';
+import { WorldBuild, buildWorld } from '../utils/worldClient';
+import { createTerrain } from '../utils/terrain';
+import { digVoxel } from '../utils/dig';
+import { WorldChunk, remeshVoxels } from '../utils/meshing';
+import { HuntInput, PickInput, reduceHunt } from '../utils/huntReducer';
+import { Recording, cameraPoseAt, downloadRecording, inputsUntil } from '../utils/replay';
+import { formatElapsed } from '../utils/save';
+import { ICE_BREAK_CRACKS, isIceBroken, meltIce } from '../utils/pond';
+import { levelObjectives, objectiveStatus } from '../utils/objectives';
+
+interface ReplayViewerProps {
+    recording: Recording;
+    onExit: () => void;
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+const UI_REFRESH_MS = 100; // The camera follows the clock every frame; the hunt and controls catch up this often
+const PICK_TRAIL_MS = 3000; // How long a click's ray stays drawn
+const PICK_RAY_LENGTH = 60;
+const LOG_LINES = 8;
+
+const noop = () => {};
+
+// One line for the input log; the clock and snowman steps are too frequent to list
+const describeInput = (input: HuntInput): string | null => {
+    switch (input.kind) {
+        case 'pick':
+            return `👆 Click → ${input.hit === null ? 'nothing' : input.id !== undefined ? `${input.hit} #${input.id}` : input.hit}`;
+        case 'collect':
+            return `🎁 Collected gift #${input.giftId}`;
+        case 'snowmanHit':
+            return `☃️ Hit snowman #${input.snowmanId}`;
+        case 'dig':
+            return `⛏️ Dug ${input.voxel.join(', ')}`;
+        case 'door':
+            return `🚪 Door ${input.index}`;
+        case 'crackIce':
+            return '🧊 Cracked the ice';
+        case 'fish':
+            return '🎣 Reeled in a line';
+        case 'throw':
+            return '❄️ Threw a snowball';
+        case 'scoop':
+            return '❄️ Scooped snow';
+        case 'hint':
+            return `🧭 Hint on gift #${input.giftId}`;
+        default:
+            return null;
+    }
+};
+
+const pickColor = (pick: PickInput) => pick.hit === 'gift' ? '#4ade80' : pick.hit === 'snowman' ? '#f87171' : pick.hit ? '#facc15' : '#ffffff';
+
+// Plays a recorded hunt back in the game scene: its world is rebuilt from the seed and the
+// recorded inputs are folded through the hunt reducer up to the playhead
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ recording, onExit }) => {
+    const [build, setBuild] = useState<WorldBuild | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // The grid and meshes as they were when recording began, for scrubbing backwards
+    const pristine = useRef<{ colors: Uint8Array, materials: Uint8Array, chunks: WorldChunk[] } | null>(null);
+
+    useEffect(() => {
+        const job = buildWorld(recording.seed, recording.level);
+        job.promise
+            .then(result => {
+                const { grid } = result.world;
+                // A resumed hunt was recorded with its earlier digs (and maybe broken ice) already made
+                const changed = [
+                    ...recording.initial.dug.filter(([x, y, z]) => digVoxel(grid, x, y, z)),
+                    ...(isIceBroken(recording.initial.ice) ? meltIce(grid, recording.level.pond) : []),
+                ];
+                const chunks = changed.length > 0 ? remeshVoxels(grid, result.chunks, changed) : result.chunks;
+                pristine.current = { colors: grid.colors.slice(), materials: grid.materials.slice(), chunks };
+                setBuild({ ...result, chunks });
+            })
+            .catch((err: Error) => setError(err.message));
+        return job.cancel;
+    }, [recording]);
+
+    const world = build?.world ?? null;
+    const objectives = useMemo(() => levelObjectives(recording.level), [recording]);
+    const terrain = useMemo(() => world ? createTerrain(world.grid) : null, [world]);
+
+    // Playhead in ms; read every frame by the camera, mirrored into state for everything else
+    const clock = useRef(0);
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(true);
+    const [speed, setSpeed] = useState(1);
+
+    useEffect(() => {
+        if (!playing || !world) return;
+        let frame = 0;
+        let last = performance.now();
+        let shown = last;
+        const tick = (now: number) => {
+            clock.current = Math.min(recording.duration, clock.current + (now - last) * speed);
+            last = now;
+            if (clock.current >= recording.duration) {
+                setTime(clock.current);
+                setPlaying(false);
+                return;
+            }
+            if (now - shown >= UI_REFRESH_MS) {
+                shown = now;
+                setTime(clock.current);
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [playing, speed, world, recording.duration]);
+
+    const seek = (t: number) => {
+        clock.current = t;
+        setTime(t);
+    };
+
+    const togglePlaying = () => {
+        if (!playing && clock.current >= recording.duration) seek(0);
+        setPlaying(prev => !prev);
+    };
+
+    // Fold the inputs up to the playhead. Going backwards restores the grid and starts over.
+    const [hunt, setHunt] = useState<GameState>(recording.initial);
+    const folded = useRef({ state: recording.initial, count: 0 });
+    const edited = useRef<Vector3Tuple[]>([]); // Voxels cleared since the pristine grid
+
+    useEffect(() => {
+        const start = pristine.current;
+        if (!world || !terrain || !start) return;
+        const { grid } = world;
+        const target = inputsUntil(recording, time);
+        let { state, count } = folded.current;
+        let base: WorldChunk[] | null = null;
+
+        if (target < count) {
+            grid.colors.set(start.colors);
+            grid.materials.set(start.materials);
+            edited.current.forEach(([x, , z]) => terrain.refreshColumn(x, z));
+            edited.current = [];
+            base = start.chunks;
+            state = recording.initial;
+            count = 0;
+        }
+
+        // The grid changes the live game makes before dispatching, made again here
+        const changed: Vector3Tuple[] = [];
+        const context = { terrain, objectives, pond: recording.level.pond, buildings: recording.level.buildings };
+        for (; count < target; count++) {
+            const { input } = recording.inputs[count];
+            const cleared: Vector3Tuple[] =
+                input.kind === 'dig' ? (digVoxel(grid, ...input.voxel) ? [input.voxel] : [])
+                : input.kind === 'crackIce' && state.ice.cracks === ICE_BREAK_CRACKS - 1 ? meltIce(grid, recording.level.pond)
+                : [];
+            cleared.forEach(([x, , z]) => terrain.refreshColumn(x, z)); // Before the snowmen next walk on it
+            changed.push(...cleared);
+            state = reduceHunt(state, input, context);
+        }
+        edited.current.push(...changed);
+
+        folded.current = { state, count };
+        setHunt(state);
+        if (base || changed.length > 0) setBuild(prev => prev && { ...prev, chunks: remeshVoxels(grid, base ?? prev.chunks, changed) });
+    }, [time, world, terrain, recording, objectives]);
+
+    const cameraPose = useCallback(() => cameraPoseAt(recording, clock.current), [recording]);
+
+    // Recent clicks (drawn as rays) and the last few inputs worth listing
+    const { picks, log } = useMemo(() => {
+        const picks: PickInput[] = [];
+        const log: { t: number, text: string }[] = [];
+        for (let i = inputsUntil(recording, time) - 1; i >= 0 && log.length < LOG_LINES; i--) {
+            const { t, input } = recording.inputs[i];
+            if (input.kind === 'pick' && time - t <= PICK_TRAIL_MS) picks.push(input);
+            const text = describeInput(input);
+            if (text) log.push({ t, text });
+        }
+        return { picks, log };
+    }, [recording, time]);
+
+    return (
+        <div className="relative w-full h-full font-sans text-white select-none">
+            <div className="absolute inset-0 z-0 bg-black">
+                <GameScene
+                    world={build}
+                    terrain={terrain}
+                    gifts={hunt.gifts}
+                    snowmen={hunt.snowmen}
+                    onCollect={noop}
+                    onSnowmanHit={noop}
+                    doors={hunt.doors}
+                    onToggleDoor={noop}
+                    ice={hunt.ice}
+                    onCrackIce={noop}
+                    snowballs={hunt.snowballs}
+                    onSnowballLand={noop}
+                    replayCamera={cameraPose}
+                >
+                    {picks.map((pick, i) => (
+                        <Line
+                            key={i}
+                            points={[pick.origin, pick.origin.map((v, axis) => v + pick.direction[axis] * PICK_RAY_LENGTH) as Vector3Tuple]}
+                            color={pickColor(pick)}
+                            lineWidth={2}
+                        />
+                    ))}
+                </GameScene>
+            </div>
+
+            <div className="absolute inset-0 z-10 pointer-events-none flex flex-col justify-between p-6">
+                <div className="flex justify-between items-start">
+                    <div className="bg-black/50 backdrop-blur-md p-4 rounded-xl border border-white/20 shadow-lg flex flex-col gap-1">
+                        <h1 className="text-2xl font-bold text-yellow-400 drop-shadow-md">▶ Replay</h1>
+                        <span className="text-xs text-gray-400 font-mono">
+                            {recording.level.name} • Seed #{recording.seed} • {new Date(recording.startedAt).toLocaleString()}
+                        </span>
+                        <span className="text-sm text-gray-200">
+                            🎁 {hunt.foundCount} • ✔ {objectives.filter(o => objectiveStatus(o, hunt).done).length}/{objectives.length} • ⏱ {formatElapsed(hunt.elapsed)}
+                            {hunt.mode === 'challenge' && <span className="text-yellow-300"> • Timed Challenge</span>}
+                        </span>
+                        {!build && !error && <span className="text-xs text-yellow-300">Building the village…</span>}
+                        {error && <span className="text-xs text-red-300">{error}</span>}
+                    </div>
+
+                    <div className="bg-black/50 backdrop-blur-md p-3 rounded-xl border border-white/20 shadow-lg text-xs font-mono text-gray-300 min-w-[220px] space-y-0.5">
+                        <span className="block uppercase tracking-wider text-gray-500">Inputs</span>
+                        {log.length === 0 && <span className="block text-gray-500">—</span>}
+                        {log.map(({ t, text }) => (
+                            <div key={`${t}-${text}`} className="flex justify-between gap-3">
+                                <span>{text}</span>
+                                <span className="text-gray-500">{(t / 1000).toFixed(1)}s</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="pointer-events-auto self-center w-full max-w-2xl bg-black/60 backdrop-blur-md px-4 py-3 rounded-xl border border-white/20 shadow-lg flex items-center gap-3 text-xs">
+                    <button
+                        onClick={togglePlaying}
+                        disabled={!build}
+                        className="px-3 py-1 rounded-full border border-white/20 text-gray-200 hover:bg-white/10 transition-colors disabled:opacity-40"
+                    >
+                        {playing ? '⏸ Pause' : '▶ Play'}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={recording.duration}
+                        step={10}
+                        value={time}
+                        onChange={e => seek(Number(e.target.value))}
+                        className="flex-1"
+                    />
+                    <span className="font-mono text-gray-300 whitespace-nowrap">
+                        {formatElapsed(Math.floor(time / 1000))} / {formatElapsed(Math.floor(recording.duration / 1000))}
+                    </span>
+                    <select
+                        value={speed}
+                        onChange={e => setSpeed(Number(e.target.value))}
+                        className="bg-black/40 border border-white/20 rounded-full px-2 py-1 text-gray-200"
+                    >
+                        {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+                    </select>
+                    <button
+                        onClick={() => downloadRecording(recording)}
+                        title="Download this replay as JSON"
+                        className="px-3 py-1 rounded-full border border-white/20 text-gray-200 hover:bg-white/10 transition-colors"
+                    >
+                        ⬇ Save
+                    </button>
+                    <button
+                        onClick={onExit}
+                        className="px-3 py-1 rounded-full border border-white/20 text-gray-200 hover:bg-white/10 transition-colors"
+                    >
+                        ✕ Exit
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
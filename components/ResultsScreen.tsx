@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import { Gift, GiftType, LevelDefinition } from '../types';
+import { CHALLENGE_SECONDS, scoreHunt } from '../utils/scoring';
+import { LeaderboardEntry, addScore, readLeaderboard, readPlayerName, writePlayerName } from '../utils/leaderboard';
+import { formatElapsed } from '../utils/save';
+import { ObjectiveStatus } from '../utils/objectives';
+import { ObjectiveList } from './ObjectiveList';
+
+interface ResultsScreenProps {
+    seed: number;
+    level: LevelDefinition; // Scores are kept per seed and level
+    gifts: Gift[];
+    foundCount: number;
+    objectives: ObjectiveStatus[];
+    elapsed: number;
+    hintsUsed: number;
+    onPlayAgain: () => void;
+    onWatchReplay?: () => void; // Set when the hunt was recorded
+}
+
+const TYPE_LABELS: Record<GiftType, string> = {
+    box: '🎁 Boxes',
+    cane: '🍬 Candy canes',
+    ornament: '🎄 Ornaments',
+    stocking: '🧦 Stockings',
+    gingerbread: '🍪 Gingerbread',
+    star: '⭐ Stars',
+    key: '🔑 Keys',
+};
+
+// End of a timed challenge: score breakdown, name prompt and the hunt's leaderboard
+export const ResultsScreen: React.FC<ResultsScreenProps> = ({ seed, level, gifts, foundCount, objectives, elapsed, hintsUsed, onPlayAgain, onWatchReplay }) => {
+    const completed = objectives.every(o => o.done);
+    const score = useMemo(() => scoreHunt(gifts, elapsed, completed, hintsUsed), [gifts, elapsed, completed, hintsUsed]);
+
+    const [name, setName] = useState(readPlayerName);
+    const [entries, setEntries] = useState<LeaderboardEntry[]>(() => readLeaderboard(seed, level));
+    const [submitted, setSubmitted] = useState<LeaderboardEntry | null>(null);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = name.trim();
+        if (!trimmed || submitted) return;
+        writePlayerName(trimmed);
+        const entry: LeaderboardEntry = { name: trimmed, score: score.total, found: foundCount, elapsed, date: Date.now() };
+        setEntries(addScore(seed, level, entry));
+        setSubmitted(entry);
+    };
+
+    const rows: [string, number][] = [
+        ...(Object.keys(TYPE_LABELS) as GiftType[])
+            .filter(type => score.byType[type].count > 0)
+            .map(type => [`${TYPE_LABELS[type]} ×${score.byType[type].count}`, score.byType[type].points] as [string, number]),
+        ['☃️ Snowman drops', score.snowmanBonus],
+        ['🏠 House stockings', score.houseBonus],
+        [`⏱ Time bonus (${formatElapsed(Math.max(0, CHALLENGE_SECONDS - elapsed))} left)`, score.timeBonus],
+        [`💡 Hints used ×${hintsUsed}`, -score.hintPenalty],
+    ];
+
+    return (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 pointer-events-auto backdrop-blur-md z-50">
+            <div className="w-full max-w-lg space-y-5 p-8 border border-white/10 rounded-2xl bg-gray-900/90 shadow-2xl">
+                <div className="text-center">
+                    <h2 className="text-4xl font-bold text-yellow-300">{completed ? 'Hunt Cleared!' : "Time's Up!"}</h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                        Seed #{seed} • {foundCount} found • ⏱ {formatElapsed(elapsed)}
+                    </p>
+                </div>
+
+                <div className="bg-black/30 rounded-lg p-4">
+                    <ObjectiveList objectives={objectives} />
+                </div>
+
+                <div className="bg-black/30 rounded-lg p-4 text-sm space-y-1">
+                    {rows.map(([label, points]) => (
+                        <div key={label} className="flex justify-between text-gray-300">
+                            <span>{label}</span>
+                            <span className="font-mono">{points === 0 ? '—' : points > 0 ? `+${points}` : points}</span>
+                        </div>
+                    ))}
+                    <div className="flex justify-between border-t border-white/10 pt-2 mt-2 text-lg font-bold text-green-400">
+                        <span>Score</span>
+                        <span className="font-mono">{score.total}</span>
+                    </div>
+                </div>
+
+                {!submitted && (
+                    <form onSubmit={handleSubmit} className="flex gap-2">
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            maxLength={16}
+                            placeholder="Your name"
+                            autoFocus
+                            className="flex-1 px-3 py-2 rounded-lg bg-black/40 border border-white/20 text-white placeholder-gray-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!name.trim()}
+                            className="px-4 py-2 rounded-lg bg-green-600 hover:bg-green-500 font-bold disabled:opacity-40 transition-colors"
+                        >
+                            Save Score
+                        </button>
+                    </form>
+                )}
+
+                <div>
+                    <h3 className="text-xs uppercase tracking-wider text-gray-400 mb-2">Leaderboard • {level.name} • Seed #{seed}</h3>
+                    {entries.length === 0 ? (
+                        <p className="text-sm text-gray-500">No scores yet on this hunt.</p>
+                    ) : (
+                        <ol className="text-sm space-y-1">
+                            {entries.map((entry, i) => (
+                                <li
+                                    key={`${entry.date}-${i}`}
+                                    className={`flex justify-between px-2 py-1 rounded ${entry === submitted ? 'bg-yellow-400/20 text-yellow-200' : 'text-gray-300'}`}
+                                >
+                                    <span>{i + 1}. {entry.name}</span>
+                                    <span className="font-mono">{entry.score} • {entry.found} found • {formatElapsed(entry.elapsed)}</span>
+                                </li>
+                            ))}
+                        </ol>
+                    )}
+                </div>
+
+                <div className="flex justify-center gap-3">
+                    <button
+                        onClick={onPlayAgain}
+                        className="px-8 py-3 bg-white text-green-900 hover:bg-gray-100 rounded-full transition-colors font-bold shadow-xl"
+                    >
+                        Play Again
+                    </button>
+                    {onWatchReplay && (
+                        <button
+                            onClick={onWatchReplay}
+                            className="px-6 py-3 rounded-full border border-white/30 text-white hover:bg-white/10 transition-colors font-bold"
+                        >
+                            ▶ Watch Replay
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Stars } from '@react-three/drei';
+import type { BloomEffect } from 'postprocessing';
+import * as THREE from 'three';
+import { TimeOfDaySettings, lampsOnAt, lightingAt, sunDirection, wrapHour } from '../utils/timeOfDay';
+import { WeatherController } from '../utils/weather';
+
+interface SkyProps {
+    timeOfDay: TimeOfDaySettings;
+    weather: WeatherController; // Snow pulls the fog in
+    bloom: BloomEffect; // Its threshold follows the light
+    onLampsChange: (on: boolean) => void;
+}
+
+const LIGHT_DISTANCE = 100; // The directional light sits this far out towards the sun (or moon)
+const BODY_DISTANCE = 300; // Sun and moon are drawn this far from the camera, past the stars
+const STAR_STEP = 0.05; // Star brightness is only re-uploaded when it moves this much
+
+// Background, fog, lights, stars, sun and moon, all following a running time-of-day clock.
+// Everything is updated in place each frame; only the lamps switching go through React.
+export const Sky: React.FC<SkyProps> = ({ timeOfDay, weather, bloom, onLampsChange }) => {
+    const scene = useThree(state => state.scene);
+    const hour = useRef(timeOfDay.start);
+    const hemisphere = useRef<THREE.HemisphereLight>(null);
+    const light = useRef<THREE.DirectionalLight>(null);
+    const sun = useRef<THREE.Mesh>(null);
+    const moon = useRef<THREE.Mesh>(null);
+    const stars = useRef<THREE.Points>(null);
+    const starColors = useRef<{ base: Float32Array, shown: number } | null>(null);
+    const lampsOn = useRef<boolean | null>(null);
+
+    // A new setting (e.g. a pinned hour) jumps the clock straight there
+    useEffect(() => {
+        hour.current = timeOfDay.start;
+    }, [timeOfDay.start]);
+
+    const direction = useRef(new THREE.Vector3());
+
+    useFrame(({ camera }, delta) => {
+        // Capped like the snowmen, so a backgrounded tab doesn't skip the evening
+        hour.current = wrapHour(hour.current + Math.min(delta, 0.1) * timeOfDay.hoursPerSecond);
+        const lighting = lightingAt(hour.current);
+        const { fogScale } = weather.conditions();
+
+        if (scene.background instanceof THREE.Color) scene.background.set(lighting.background);
+        else scene.background = new THREE.Color(lighting.background);
+        if (scene.fog instanceof THREE.Fog) {
+            scene.fog.color.set(lighting.fog);
+            scene.fog.near = lighting.fogNear * fogScale;
+            scene.fog.far = lighting.fogFar * fogScale;
+        } else {
+            scene.fog = new THREE.Fog(lighting.fog, lighting.fogNear * fogScale, lighting.fogFar * fogScale);
+        }
+
+        if (hemisphere.current) {
+            hemisphere.current.color.set(lighting.sky);
+            hemisphere.current.groundColor.set(lighting.ground);
+            hemisphere.current.intensity = lighting.ambient;
+        }
+
+        // The light comes from whichever of the two is up, fading out as it meets the horizon
+        const toSun = sunDirection(hour.current);
+        const sunUp = toSun[1] >= 0;
+        const towards = direction.current.set(...toSun).multiplyScalar(sunUp ? 1 : -1);
+        if (light.current) {
+            light.current.position.copy(towards).multiplyScalar(LIGHT_DISTANCE);
+            light.current.color.set(lighting.sun);
+            light.current.intensity = lighting.sunIntensity * THREE.MathUtils.clamp(towards.y * 5, 0, 1);
+        }
+        towards.set(...toSun);
+        sun.current?.position.copy(camera.position).addScaledVector(towards, BODY_DISTANCE);
+        moon.current?.position.copy(camera.position).addScaledVector(towards, -BODY_DISTANCE);
+        if (sun.current) sun.current.visible = toSun[1] > -0.1;
+        if (moon.current) moon.current.visible = toSun[1] < 0.1;
+
+        // The starfield blends additively, so dimming its colours fades it out
+        const geometry = stars.current?.geometry;
+        const colors = geometry?.getAttribute('color') as THREE.BufferAttribute | undefined;
+        if (geometry && colors) {
+            if (!starColors.current) starColors.current = { base: (colors.array as Float32Array).slice(), shown: 1 };
+            const target = Math.round(lighting.stars / STAR_STEP) * STAR_STEP;
+            if (target !== starColors.current.shown) {
+                const { base } = starColors.current;
+                for (let i = 0; i < base.length; i++) colors.array[i] = base[i] * target;
+                colors.needsUpdate = true;
+                starColors.current.shown = target;
+            }
+            stars.current!.visible = target > 0;
+        }
+
+        bloom.luminanceMaterial.threshold = lighting.bloomThreshold;
+
+        const lamps = lampsOnAt(hour.current);
+        if (lamps !== lampsOn.current) {
+            lampsOn.current = lamps;
+            onLampsChange(lamps);
+        }
+    });
+
+    return (
+        <>
+            <Stars ref={stars} radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} />
+
+            <hemisphereLight ref={hemisphere} />
+
+            {/* Main Directional Light (Sun/Moon) */}
+            <directionalLight
+                ref={light}
+                castShadow
+                shadow-mapSize={[1024, 1024]}
+                shadow-bias={-0.0001}
+            >
+                <orthographicCamera attach="shadow-camera" args={[-60, 60, 60, -60]} />
+            </directionalLight>
+
+            <mesh ref={sun}>
+                <sphereGeometry args={[12, 24, 24]} />
+                <meshBasicMaterial color={[4, 3.2, 1.6]} toneMapped={false} fog={false} />
+            </mesh>
+            <mesh ref={moon}>
+                <sphereGeometry args={[7, 24, 24]} />
+                <meshBasicMaterial color="#e8eeff" fog={false} />
+            </mesh>
+        </>
+    );
+};
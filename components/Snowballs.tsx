@@ -0,0 +1,95 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Gift, Snowball, Snowman } from '../types';
+import { VoxelGrid } from '../utils/voxelGrid';
+import { Impact, Projectile, stepProjectile } from '../utils/throwing';
+
+interface SnowballsProps {
+    snowballs: Snowball[];
+    // `hitCamera` is true if the camera was still near the aim point when the ball came down
+    onLand: (id: number, hitCamera: boolean) => void;
+}
+
+const HIT_RADIUS = 2.0; // Step further than this from where it was aimed to dodge
+
+// Lobbed in an arc; flight time and height grow with distance
+const SnowballItem: React.FC<{ snowball: Snowball, onLand: (hitCamera: boolean) => void }> = ({ snowball, onLand }) => {
+    const { camera } = useThree();
+    const meshRef = useRef<THREE.Mesh>(null);
+    const progress = useRef(0);
+    const landed = useRef(false);
+
+    const flight = useMemo(() => {
+        const from = new THREE.Vector3(...snowball.from);
+        const to = new THREE.Vector3(...snowball.to);
+        const distance = from.distanceTo(to);
+        return { from, to, duration: 0.6 + distance * 0.04, arc: distance * 0.2 };
+    }, [snowball]);
+
+    useFrame((state, delta) => {
+        if (!meshRef.current || landed.current) return;
+        progress.current = Math.min(1, progress.current + delta / flight.duration);
+        const t = progress.current;
+        meshRef.current.position.lerpVectors(flight.from, flight.to, t);
+        meshRef.current.position.y += Math.sin(t * Math.PI) * flight.arc;
+
+        if (t >= 1) {
+            landed.current = true;
+            onLand(camera.position.distanceTo(flight.to) < HIT_RADIUS);
+        }
+    });
+
+    return (
+        <mesh ref={meshRef} position={snowball.from} castShadow>
+            <sphereGeometry args={[0.15, 10, 10]} />
+            <meshStandardMaterial color="white" roughness={1} />
+        </mesh>
+    );
+};
+
+interface ThrownSnowballProps {
+    projectile: Projectile;
+    grid: VoxelGrid;
+    gifts: Gift[];
+    snowmen: Snowman[];
+    onImpact: (impact: Impact | null) => void; // Null when it flew off without hitting anything
+}
+
+// The player's throw: simulated every frame against the grid and whatever is standing on it
+export const ThrownSnowball: React.FC<ThrownSnowballProps> = ({ projectile, grid, gifts, snowmen, onImpact }) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const flight = useRef(projectile);
+    const done = useRef(false);
+
+    useFrame((state, delta) => {
+        if (!meshRef.current || done.current) return;
+        // Long frames are split so a fast ball can't skip past a thin wall or a snowman
+        const steps = Math.ceil(Math.min(delta, 0.1) / 0.02);
+        for (let i = 0; i < steps; i++) {
+            const step = stepProjectile(grid, flight.current, Math.min(delta, 0.1) / steps, gifts, snowmen);
+            flight.current = step.projectile;
+            if (step.impact || step.expired) {
+                done.current = true;
+                onImpact(step.impact);
+                return;
+            }
+        }
+        meshRef.current.position.set(...flight.current.position);
+    });
+
+    return (
+        <mesh ref={meshRef} position={projectile.position} castShadow>
+            <sphereGeometry args={[0.15, 10, 10]} />
+            <meshStandardMaterial color="white" roughness={1} />
+        </mesh>
+    );
+};
+
+export const Snowballs: React.FC<SnowballsProps> = ({ snowballs, onLand }) => (
+    <group>
+        {snowballs.map(b => (
+            <SnowballItem key={b.id} snowball={b} onLand={hit => onLand(b.id, hit)} />
+        ))}
+    </group>
+);
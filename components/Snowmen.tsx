@@ -1,27 +1,58 @@
-import React, { useRef, useState, useMemo } from 'react';
+import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Snowman } from '../types';
+import { SNOWMAN_VARIANTS } from '../utils/snowmanVariants';
 
+// Hits are resolved by the voxel picker and movement by the behaviour system (utils/snowmanAI);
+// this only draws the snowmen, easing them between the AI's steps
 interface SnowmenProps {
     snowmen: Snowman[];
-    onHit: (id: number) => void;
+    hoveredId: number | null;
 }
 
-const SnowmanItem: React.FC<{ snowman: Snowman, onHit: () => void }> = ({ snowman, onHit }) => {
+const SnowmanItem: React.FC<{ snowman: Snowman, hovered: boolean }> = ({ snowman, hovered }) => {
+    const moverRef = useRef<THREE.Group>(null);
     const groupRef = useRef<THREE.Group>(null);
-    const [hovered, setHovered] = useState(false);
+    const placed = useRef(false);
     const [hitFlash, setHitFlash] = useState(0);
     const wiggleOffset = useMemo(() => Math.random() * 100, []);
+    const { maxHp, scale, look } = SNOWMAN_VARIANTS[snowman.variant];
+
+    // Flash whenever a hit lands
+    useEffect(() => {
+        if (snowman.hp < maxHp) setHitFlash(1);
+    }, [snowman.hp, maxHp]);
+
+    useFrame((state, delta) => {
+        const mover = moverRef.current;
+        if (mover) {
+            const [x, y, z] = snowman.position;
+            if (!placed.current) {
+                mover.position.set(x, y, z);
+                mover.rotation.y = snowman.rotation;
+                placed.current = true;
+            }
+            mover.position.x = THREE.MathUtils.damp(mover.position.x, x, 6, delta);
+            mover.position.y = THREE.MathUtils.damp(mover.position.y, y, 6, delta);
+            mover.position.z = THREE.MathUtils.damp(mover.position.z, z, 6, delta);
+
+            // Turn the short way round
+            const turn = Math.atan2(Math.sin(snowman.rotation - mover.rotation.y), Math.cos(snowman.rotation - mover.rotation.y));
+            mover.rotation.y += turn * Math.min(1, delta * 8);
+        }
 
-    useFrame((state) => {
         if (groupRef.current) {
             const time = state.clock.elapsedTime;
             
-            // Idle Animation: Gentle wobble
-            const wobble = Math.sin(time * 2 + wiggleOffset) * 0.05;
+            // Idle Animation: Gentle wobble, a frantic hop when fleeing, leaning back to throw
+            const fleeing = snowman.mood === 'flee';
+            const wobble = Math.sin(time * (fleeing ? 14 : 2) + wiggleOffset) * (fleeing ? 0.15 : 0.05);
             groupRef.current.rotation.z = wobble;
-            groupRef.current.rotation.x = Math.cos(time * 1.5 + wiggleOffset) * 0.03;
+            groupRef.current.rotation.x = snowman.mood === 'windup'
+                ? THREE.MathUtils.damp(groupRef.current.rotation.x, -0.35, 10, delta)
+                : Math.cos(time * 1.5 + wiggleOffset) * 0.03;
+            groupRef.current.position.y = fleeing ? Math.abs(Math.sin(time * 14 + wiggleOffset)) * 0.15 : 0;
 
             // Hit Flash Animation
             if (hitFlash > 0) {
@@ -36,32 +67,21 @@ const SnowmanItem: React.FC<{ snowman: Snowman, onHit: () => void }> = ({ snowma
         }
     });
 
-    const handleClick = (e: any) => {
-        e.stopPropagation();
-        setHitFlash(1);
-        onHit();
-    };
-
     const snowMaterial = useMemo(() => new THREE.MeshStandardMaterial({
-        color: 0xffffff,
-        roughness: 1, // Look like snow
-        metalness: 0
-    }), []);
+        color: look.snow,
+        roughness: look.shiny ? 0.3 : 1, // Look like snow
+        metalness: look.shiny ? 0.7 : 0
+    }), [look]);
 
     const coalMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0x111111, roughness: 1 }), []);
     const carrotMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0xff6b00, roughness: 0.5 }), []);
     const stickMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0x5d4037, roughness: 1 }), []);
-    const scarfMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0xd63031, roughness: 0.8 }), []);
+    const scarfMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: look.scarf, roughness: 0.8 }), [look]);
+    const crownMaterial = useMemo(() => new THREE.MeshStandardMaterial({ color: 0xffc107, roughness: 0.2, metalness: 0.9, emissive: 0x664400 }), []);
 
     return (
-        <group 
-            ref={groupRef}
-            position={snowman.position} 
-            rotation={[0, snowman.rotation, 0]}
-            onClick={handleClick}
-            onPointerOver={() => { setHovered(true); document.body.style.cursor = 'pointer'; }}
-            onPointerOut={() => { setHovered(false); document.body.style.cursor = 'auto'; }}
-        >
+        <group ref={moverRef} scale={scale}>
+        <group ref={groupRef}>
              {/* --- Body --- */}
              {/* Bottom Sphere */}
              <mesh position={[0, 0.6, 0]} castShadow receiveShadow material={snowMaterial}>
@@ -101,6 +121,7 @@ const SnowmanItem: React.FC<{ snowman: Snowman, onHit: () => void }> = ({ snowma
 
              {/* --- Accessories --- */}
              {/* Hat (Cylinder) */}
+             {look.hat === 'top' && (
              <group position={[0, 2.75, 0]} rotation={[-0.1, 0, 0.1]}>
                 <mesh castShadow material={coalMaterial}>
                     <cylinderGeometry args={[0.3, 0.3, 0.5]} />
@@ -113,6 +134,21 @@ const SnowmanItem: React.FC<{ snowman: Snowman, onHit: () => void }> = ({ snowma
                      <meshStandardMaterial color="#ff0000" />
                 </mesh>
              </group>
+             )}
+
+             {/* Crown (Ring of spikes) */}
+             {look.hat === 'crown' && (
+             <group position={[0, 2.75, 0]}>
+                <mesh material={crownMaterial}>
+                    <cylinderGeometry args={[0.3, 0.3, 0.12, 16, 1, true]} />
+                </mesh>
+                {[0, 1, 2, 3, 4].map(i => (
+                    <mesh key={i} position={[Math.sin(i * Math.PI * 0.4) * 0.26, 0.14, Math.cos(i * Math.PI * 0.4) * 0.26]} material={crownMaterial}>
+                        <coneGeometry args={[0.06, 0.2, 6]} />
+                    </mesh>
+                ))}
+             </group>
+             )}
 
              {/* Scarf (Torus) */}
              <mesh position={[0, 2.05, 0]} rotation={[Math.PI/2, 0, 0]} material={scarfMaterial}>
@@ -131,80 +167,28 @@ const SnowmanItem: React.FC<{ snowman: Snowman, onHit: () => void }> = ({ snowma
              </mesh>
 
              {/* Health Bar (Only show if damaged) */}
-             {snowman.hp < 3 && (
+             {snowman.hp < maxHp && (
                  <mesh position={[0, 3.5, 0]}>
                      <boxGeometry args={[1, 0.1, 0.05]} />
                      <meshBasicMaterial color="red" />
-                     <mesh position={[-(1 - snowman.hp/3)/2, 0, 0.01]}>
-                        <boxGeometry args={[snowman.hp/3, 0.1, 0.05]} />
+                     <mesh position={[-(1 - snowman.hp/maxHp)/2, 0, 0.01]}>
+                        <boxGeometry args={[snowman.hp/maxHp, 0.1, 0.05]} />
                         <meshBasicMaterial color="green" />
                      </mesh>
                  </mesh>
              )}
         </group>
-    );
-};
-
-// Explosion effect when snowman dies
-const SnowExplosion: React.FC<{ position: [number, number, number] }> = ({ position }) => {
-    const groupRef = useRef<THREE.Group>(null);
-    const [finished, setFinished] = useState(false);
-
-    useFrame((state, delta) => {
-        if (groupRef.current && !finished) {
-            groupRef.current.children.forEach((child: any) => {
-                 child.position.add(child.userData.velocity);
-                 child.userData.velocity.y -= delta * 5; // Gravity
-                 child.scale.multiplyScalar(0.95); // Shrink
-            });
-            
-            // Cleanup check
-            if (groupRef.current.children[0].scale.x < 0.01) {
-                setFinished(true);
-            }
-        }
-    });
-
-    // Create particles once
-    const particles = useMemo(() => {
-        return [...Array(12)].map((_, i) => ({
-            velocity: new THREE.Vector3(
-                (Math.random() - 0.5) * 0.3,
-                Math.random() * 0.5,
-                (Math.random() - 0.5) * 0.3
-            )
-        }));
-    }, []);
-
-    if (finished) return null;
-
-    return (
-        <group ref={groupRef} position={position}>
-            {particles.map((p, i) => (
-                <mesh key={i} userData={{ velocity: p.velocity }}>
-                    <boxGeometry args={[0.3, 0.3, 0.3]} />
-                    <meshStandardMaterial color="white" />
-                </mesh>
-            ))}
         </group>
     );
 };
 
-
-export const Snowmen: React.FC<SnowmenProps> = ({ snowmen, onHit }) => {
-    // We also want to render explosions for recently dead snowmen
-    // But for simplicity in this React model, we can rely on the Gift spawning logic to indicate success
-    // or we can add a transient effect. Let's just handle living snowmen here.
-
+export const Snowmen: React.FC<SnowmenProps> = ({ snowmen, hoveredId }) => {
+    // Breaking apart is a pooled effect (see utils/vfx); only the living are drawn here
     return (
         <group>
             {snowmen.map(sm => (
-                !sm.isDead && <SnowmanItem key={sm.id} snowman={sm} onHit={() => onHit(sm.id)} />
+                !sm.isDead && <SnowmanItem key={sm.id} snowman={sm} hovered={sm.id === hoveredId} />
             ))}
-            {/* Transient explosions could be managed here if state allows, 
-                but simply removing the snowman instantly is also fine, 
-                maybe add a particle effect on the Gift spawn instead? 
-                Let's stick to simple removal + gift appearance. */}
         </group>
     );
 };
\ No newline at end of file
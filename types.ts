@@ -1,6 +1,13 @@
 import React from 'react';
 
-export type GiftType = 'box' | 'cane' | 'ornament' | 'stocking' | 'gingerbread' | 'star';
+// Keys aren't presents: they open a locked door and don't count towards the hunt
+export type GiftType = 'box' | 'cane' | 'ornament' | 'stocking' | 'gingerbread' | 'star' | 'key';
+
+// Where the hunt placed a gift (scoring rewards the harder spots)
+export type GiftSource = 'tree' | 'house' | 'pond' | 'fixed' | 'scatter' | 'buried' | 'snowman';
+
+// Explore has no clock; challenge races a time limit for points
+export type GameMode = 'explore' | 'challenge';
 
 export interface Gift {
   id: number;
@@ -8,27 +15,167 @@ export interface Gift {
   color: string;
   collected: boolean;
   type: GiftType;
+  source: GiftSource;
   rotation?: [number, number, number];
+  buried?: Vector3Tuple; // Voxel holding the gift; it can't be seen or collected until that voxel is dug out
+  sunk?: boolean; // Fell through the broken pond ice; only fishing gets it back
+  house?: number; // Building it was placed inside; can't be collected while that door is locked
+  unlocks?: number; // Keys only: the door it opens
 }
 
+// idle: stands around • wander: walks to a nearby goal • flee: runs from the player after a hit
+// windup: about to lob a snowball at the player
+export type SnowmanMood = 'idle' | 'wander' | 'flee' | 'windup';
+
+// Stats, looks and loot per variant live in utils/snowmanVariants
+export type SnowmanVariant = 'tiny' | 'classic' | 'giant' | 'golden';
+
 export interface Snowman {
     id: number;
     position: [number, number, number];
     rotation: number;
-    hp: number; // Health points (3 hits to break)
+    variant: SnowmanVariant;
+    hp: number; // Hits left before it breaks (starts at the variant's max)
     isDead: boolean;
+    mood: SnowmanMood;
+    moodTime: number; // Seconds left in the current mood
+    goal?: [number, number]; // World X/Z it is walking towards
+    cooldown: number; // Seconds until it may throw again
+    key?: number; // Door whose key it drops when broken
+}
+
+// A snowball in flight
+export interface Snowball {
+    id: number;
+    thrower: number; // Snowman id
+    from: Vector3Tuple;
+    to: Vector3Tuple;
 }
 
 export interface GameState {
   started: boolean;
+  mode: GameMode;
+  seed: number; // Drives world, gift & snowman generation
   gifts: Gift[];
   snowmen: Snowman[];
   foundCount: number;
   gameOver: boolean;
+  dug: Vector3Tuple[]; // Voxels removed with the dig tool, in dig order
+  doors: DoorState[]; // By index into the world's doors (one per building)
+  keys: number[]; // Doors the player is carrying the key for
+  ice: IceState;
+  quests: Record<string, QuestProgress>; // By objective id; quests not started yet are missing
+  elapsed: number; // Seconds of play in this hunt
+  hintsUsed: number; // Radar reveals spent
+  snowballs: Snowball[]; // In flight right now (not saved)
+  ammo: number; // Snowballs the player is carrying (not saved; a resumed hunt starts with a full pouch)
 }
 
 export type Vector3Tuple = [number, number, number];
 
+export interface DoorState {
+  open: boolean;
+  locked: boolean; // Opening it uses up its key
+}
+
+export interface QuestProgress {
+  step: number; // Index of the step being worked on; past the last one when the quest is done
+  count: number; // Towards that step's goal
+}
+
+export interface IceState {
+  cracks: number; // Hits the pond has taken; it shatters at 3
+  origin: Vector3Tuple | null; // Where the first hit landed; the cracks spread from there
+}
+
+// --- Level Format ---
+// All coordinates are voxel units on the XZ plane (1 voxel = VOXEL_SIZE world units).
+
+export type Point2 = [number, number];
+
+export interface LevelBuilding {
+  id: string;
+  x: number;
+  z: number;
+  width: number;
+  depth: number;
+  height: number;
+  rotation: 0 | 1; // 0 = door faces +Z, 1 = rotated 90° (door faces -X)
+  locked?: boolean; // Door needs a key, left in another house or carried by a snowman
+}
+
+export interface LevelPath {
+  from: Point2;
+  to: Point2;
+  width?: number; // Half-width in voxels, defaults to 1.5
+}
+
+export interface LevelGiftSpawn {
+  x: number;
+  z: number;
+  type?: GiftType; // Random type when omitted
+}
+
+export interface LevelSpawnRules {
+  gifts: {
+    fixed?: LevelGiftSpawn[]; // Hand-placed gifts, always spawned
+    tree: { count: number; minHeight: number; maxHeight: number }; // Heights are fractions of the tree
+    houses: { min: number; max: number; margin: number }; // Stockings per house, kept `margin` voxels off the walls
+    pond: { count: number; radius: number };
+    scatter: { fillTo: number; range: number; clearRadius: number }; // Random terrain gifts until `fillTo` total
+    buried?: { count: number; maxDepth: number; range: number }; // Extra gifts hidden 1..maxDepth voxels under the snow
+  };
+  snowmen: {
+    count: number;
+    spots: Point2[]; // Fixed scenic spots, always used; random ones within `range` fill up to `count`
+    range: number;
+    clearRadius: number;
+  };
+}
+
+// --- Objectives ---
+// What a level asks of the player; the hunt is won once every one is done.
+
+// Only what happens while its step is active counts towards a quest goal
+export type QuestGoal =
+  | { kind: 'collect'; giftType?: GiftType; source?: GiftSource; house?: string; count: number } // `house`: a building id; only gifts inside it count
+  | { kind: 'breakSnowmen'; variant?: SnowmanVariant; count: number }
+  | { kind: 'unlockDoors'; count: number }
+  | { kind: 'breakIce' };
+
+export interface QuestStep {
+  label: string;
+  goal: QuestGoal;
+}
+
+export type ObjectiveDefinition =
+  | { kind: 'location'; id: string; label: string; source?: Exclude<GiftSource, 'snowman'> } // Every present placed there (anywhere when omitted)
+  | { kind: 'count'; id: string; label: string; giftType?: GiftType; count: number } // That many presents (of one type)
+  | { kind: 'quest'; id: string; label: string; steps: QuestStep[] }; // Steps done in order
+
+export interface LevelDefinition {
+  version: 1;
+  name: string;
+  tree: { x: number; z: number; height: number; radius: number };
+  pond: { x: number; z: number; radius: number };
+  buildings: LevelBuilding[];
+  paths: LevelPath[];
+  spawns: LevelSpawnRules;
+  objectives?: ObjectiveDefinition[]; // Finding every present when omitted
+}
+
+// --- Level Editor ---
+
+export type EditorTool = 'select' | 'path' | 'gift' | 'snowman';
+
+export type EditorSelection =
+  | { kind: 'building'; index: number }
+  | { kind: 'pond' }
+  | { kind: 'path'; index: number }
+  | { kind: 'gift'; index: number }
+  | { kind: 'snowman'; index: number }
+  | null;
+
 declare global {
   namespace JSX {
     interface IntrinsicElements {
@@ -55,4 +202,4 @@ declare global {
       [elemName: string]: any;
     }
   }
-}
\ No newline at end of file
+}
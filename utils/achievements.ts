@@ -0,0 +1,142 @@
+// --- Achievements ---
+// One-off feats, checked whenever the event bus reports something that could earn one and
+// kept in localStorage across sessions. Unlocks are announced back on the bus.
+
+import { GameState } from '../types';
+import { EventBus, GameEvent, GameEventType } from './events';
+import { isPresent } from './doors';
+import { isIceBroken } from './pond';
+
+const ACHIEVEMENTS_KEY = 'christmas-hunt:achievements';
+
+export const SPEEDY_SECONDS = 5 * 60;
+
+export interface Achievement {
+    id: string;
+    icon: string;
+    label: string;
+    description: string;
+    on: GameEventType[]; // Checked after these events
+    earned: (event: GameEvent, state: GameState) => boolean;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    {
+        id: 'first-present',
+        icon: '🎁',
+        label: 'First Present',
+        description: 'Find your first present',
+        on: ['giftCollected'],
+        earned: (_, state) => state.foundCount > 0,
+    },
+    {
+        id: 'snowman-sweep',
+        icon: '☃️',
+        label: 'Snowman Sweep',
+        description: 'Break every snowman in a hunt',
+        on: ['snowmanKilled'],
+        earned: (_, state) => state.snowmen.length > 0 && state.snowmen.every(s => s.isDead),
+    },
+    {
+        id: 'golden-touch',
+        icon: '✨',
+        label: 'Golden Touch',
+        description: 'Break a golden snowman',
+        on: ['snowmanKilled'],
+        earned: event => event.type === 'snowmanKilled' && event.variant === 'golden',
+    },
+    {
+        id: 'thin-ice',
+        icon: '🧊',
+        label: 'Thin Ice',
+        description: 'Crack the pond ice until it breaks',
+        on: ['iceCracked'],
+        earned: (_, state) => isIceBroken(state.ice),
+    },
+    {
+        id: 'gone-fishing',
+        icon: '🎣',
+        label: 'Gone Fishing',
+        description: 'Fish a sunken gift out of the pond',
+        on: ['giftCollected'],
+        earned: event => event.type === 'giftCollected' && event.fished,
+    },
+    {
+        id: 'locksmith',
+        icon: '🔑',
+        label: 'Locksmith',
+        description: 'Unlock a locked house',
+        on: ['doorUnlocked'],
+        earned: () => true,
+    },
+    {
+        id: 'open-house',
+        icon: '🚪',
+        label: 'Open House',
+        description: 'Have every door in the village open at once',
+        on: ['doorToggled'],
+        earned: (_, state) => state.doors.length > 0 && state.doors.every(d => d.open),
+    },
+    {
+        id: 'house-calls',
+        icon: '🧦',
+        label: 'House Calls',
+        description: 'Find a present inside each house that has one',
+        on: ['giftCollected'],
+        earned: (_, state) => {
+            // Houses dealt no presents (only a key, or nothing) can't be called on
+            const houses = new Set(state.gifts.flatMap(g => g.house !== undefined && isPresent(g) ? [g.house] : []));
+            return houses.size > 0 && [...houses].every(house =>
+                state.gifts.some(g => g.collected && g.house === house && isPresent(g)));
+        },
+    },
+    {
+        id: 'speed-elf',
+        icon: '⏱',
+        label: 'Speed Elf',
+        description: `Win a hunt in under ${SPEEDY_SECONDS / 60} minutes`,
+        on: ['huntWon'],
+        earned: (_, state) => state.elapsed < SPEEDY_SECONDS,
+    },
+    {
+        id: 'no-peeking',
+        icon: '🙈',
+        label: 'No Peeking',
+        description: 'Win a hunt without using a hint',
+        on: ['huntWon'],
+        earned: (_, state) => state.hintsUsed === 0,
+    },
+];
+
+export type Unlocks = Record<string, number>; // Achievement id -> unlocked at (Unix ms)
+
+export const readUnlocks = (): Unlocks => {
+    try {
+        const data = JSON.parse(window.localStorage.getItem(ACHIEVEMENTS_KEY) ?? '{}');
+        return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+    } catch {
+        return {};
+    }
+};
+
+const writeUnlocks = (unlocks: Unlocks) => {
+    try {
+        window.localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(unlocks));
+    } catch {
+        // Storage unavailable; the unlock still shows for this session
+    }
+};
+
+// Checks the achievements still locked against the hunt as it is after each event, and reports
+// new unlocks on the same bus. `state` is read when an event arrives, so it must already be current.
+export const trackAchievements = (bus: EventBus, state: () => GameState): (() => void) => {
+    let unlocks = readUnlocks();
+    return bus.onAny(event => {
+        ACHIEVEMENTS.forEach(achievement => {
+            if (unlocks[achievement.id] || !achievement.on.includes(event.type) || !achievement.earned(event, state())) return;
+            unlocks = { ...unlocks, [achievement.id]: event.at };
+            writeUnlocks(unlocks);
+            bus.emit({ type: 'achievementUnlocked', achievement: achievement.id, label: `${achievement.icon} ${achievement.label}` }, event.elapsed);
+        });
+    });
+};
@@ -0,0 +1,175 @@
+// --- Character Collision ---
+// Axis-aligned box movement against the voxel grid, for the first-person walker.
+// Positions are the centre of the feet, in world units.
+
+import { Vector3Tuple } from '../types';
+import { VoxelGrid, getMaterial } from './voxelGrid';
+import { DOOR_SIZE, DoorData, VOXEL_SIZE } from './worldGen';
+
+export interface BodyShape {
+    radius: number; // Half-width of the box on X and Z
+    height: number;
+    stepHeight: number; // Ledges up to this high are climbed without jumping
+}
+
+export interface Body {
+    position: Vector3Tuple;
+    velocity: Vector3Tuple;
+    onGround: boolean;
+}
+
+// Extra obstacles that are not voxels (e.g. doors); returns true if the box overlaps one
+export type Blocker = (min: Vector3Tuple, max: Vector3Tuple) => boolean;
+
+const EPSILON = 1e-4;
+
+// Smoke puffs and water don't stop you; everything else does
+export const isBlocking = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    const material = getMaterial(grid, x, y, z);
+    return material !== 'air' && material !== 'smoke' && material !== 'water';
+};
+
+// Voxel n spans [n - 0.5, n + 0.5) * VOXEL_SIZE; touching a face is not an overlap
+const firstCell = (min: number) => Math.floor(min / VOXEL_SIZE + 0.5);
+const lastCell = (max: number) => Math.ceil(max / VOXEL_SIZE + 0.5) - 1;
+
+const bounds = (position: Vector3Tuple, shape: BodyShape): [Vector3Tuple, Vector3Tuple] => [
+    [position[0] - shape.radius, position[1], position[2] - shape.radius],
+    [position[0] + shape.radius, position[1] + shape.height, position[2] + shape.radius],
+];
+
+// Range of blocking cell indices along `axis` inside the box, or null if it is clear
+const blockingRange = (grid: VoxelGrid, min: Vector3Tuple, max: Vector3Tuple, axis: number): [number, number] | null => {
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (let x = firstCell(min[0]); x <= lastCell(max[0]); x++) {
+        for (let y = firstCell(min[1]); y <= lastCell(max[1]); y++) {
+            for (let z = firstCell(min[2]); z <= lastCell(max[2]); z++) {
+                if (!isBlocking(grid, x, y, z)) continue;
+                const index = axis === 0 ? x : axis === 1 ? y : z;
+                lo = Math.min(lo, index);
+                hi = Math.max(hi, index);
+            }
+        }
+    }
+    return lo === Infinity ? null : [lo, hi];
+};
+
+export const isBoxClear = (grid: VoxelGrid, position: Vector3Tuple, shape: BodyShape, blockers: Blocker[] = []): boolean => {
+    const [min, max] = bounds(position, shape);
+    return !blockingRange(grid, min, max, 1) && !blockers.some(blocked => blocked(min, max));
+};
+
+// Moves along one axis, stopping flush against the first voxel hit. Returns true if blocked.
+const moveAxis = (grid: VoxelGrid, body: Body, shape: BodyShape, axis: number, distance: number, blockers: Blocker[]): boolean => {
+    const start = body.position[axis];
+    body.position[axis] = start + distance;
+
+    const [min, max] = bounds(body.position, shape);
+    const range = blockingRange(grid, min, max, axis);
+    if (range) {
+        // Snap against the face of the nearest blocking voxel
+        const extent = axis === 1 ? (distance > 0 ? shape.height : 0) : shape.radius;
+        body.position[axis] = distance > 0
+            ? (range[0] - 0.5) * VOXEL_SIZE - extent - EPSILON
+            : (range[1] + 0.5) * VOXEL_SIZE + extent + EPSILON;
+        if (distance > 0 ? body.position[axis] < start : body.position[axis] > start) body.position[axis] = start;
+        return true;
+    }
+
+    if (blockers.some(blocked => blocked(min, max))) {
+        body.position[axis] = start;
+        return true;
+    }
+    return false;
+};
+
+// Moves the body by its velocity over `delta` seconds, in sub-steps small enough that it
+// can't tunnel through a single voxel. Climbs single-voxel ledges while on the ground.
+export const moveBody = (grid: VoxelGrid, body: Body, shape: BodyShape, delta: number, allBlockers: Blocker[] = []) => {
+    // Anything already overlapping (a door swinging into you) is ignored so you can walk out of it
+    const [startMin, startMax] = bounds(body.position, shape);
+    const blockers = allBlockers.filter(blocked => !blocked(startMin, startMax));
+
+    const travel = body.velocity.map(v => v * delta);
+    const steps = Math.max(1, Math.ceil(Math.max(...travel.map(Math.abs)) / (VOXEL_SIZE * 0.5)));
+    let grounded = false;
+
+    for (let s = 0; s < steps; s++) {
+        for (const axis of [0, 2]) {
+            const distance = travel[axis] / steps;
+            if (distance === 0) continue;
+            const before: Vector3Tuple = [...body.position];
+            if (!moveAxis(grid, body, shape, axis, distance, blockers)) continue;
+
+            // Blocked: try the same move one step higher
+            if (body.onGround || grounded) {
+                const raised: Vector3Tuple = [...before];
+                raised[1] += shape.stepHeight + EPSILON;
+                raised[axis] += distance;
+                if (isBoxClear(grid, raised, shape, blockers) && isBoxClear(grid, [before[0], raised[1], before[2]], shape, blockers)) {
+                    body.position = raised;
+                    continue;
+                }
+            }
+            body.velocity[axis] = 0;
+        }
+
+        const fall = travel[1] / steps;
+        if (fall !== 0 && moveAxis(grid, body, shape, 1, fall, blockers)) {
+            if (fall < 0) grounded = true;
+            body.velocity[1] = 0;
+            travel[1] = 0;
+        }
+    }
+
+    // Resting on something counts as grounded even when not falling this frame
+    if (!grounded && body.velocity[1] <= 0) {
+        const below: Vector3Tuple = [body.position[0], body.position[1] - EPSILON * 10, body.position[2]];
+        grounded = !isBoxClear(grid, below, shape, blockers);
+    }
+    body.onGround = grounded;
+};
+
+// Door panel swung `angle` radians about its hinge, as a thin slab sampled along its width
+export const doorBlocker = ({ position, rotation }: DoorData, angle: number): Blocker => {
+    const width = DOOR_SIZE.width * VOXEL_SIZE;
+    const top = position[1] + DOOR_SIZE.height * VOXEL_SIZE;
+    const half = VOXEL_SIZE / 2;
+    const dx = Math.cos(rotation + angle);
+    const dz = -Math.sin(rotation + angle);
+
+    return (min, max) => {
+        if (max[1] <= position[1] || min[1] >= top) return false;
+        for (let d = 0; d <= width; d += half) {
+            const x = position[0] + dx * d;
+            const z = position[2] + dz * d;
+            if (x > min[0] - half && x < max[0] + half && z > min[2] - half && z < max[2] + half) return true;
+        }
+        return false;
+    };
+};
+
+// Nearest spot to `near` where the body can stand on the ground without overlapping anything.
+// `groundAt` gives the feet height for a world X/Z, or null off the island.
+export const findStandingSpot = (
+    grid: VoxelGrid,
+    near: [number, number],
+    shape: BodyShape,
+    groundAt: (x: number, z: number) => number | null,
+    blockers: Blocker[] = [],
+): Vector3Tuple | null => {
+    for (let r = 0; r <= 20; r += 0.5) {
+        const samples = Math.max(1, Math.round(r * 8));
+        for (let i = 0; i < samples; i++) {
+            const angle = (i / samples) * Math.PI * 2;
+            const x = near[0] + Math.cos(angle) * r;
+            const z = near[1] + Math.sin(angle) * r;
+            const y = groundAt(x, z);
+            if (y === null) continue;
+            const spot: Vector3Tuple = [x, y + EPSILON, z];
+            if (isBoxClear(grid, spot, shape, blockers)) return spot;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,16 @@
+// --- Digging ---
+// The dig tool removes single voxels from the grid. Only the snow cover and the
+// dirt beneath it can be dug; paths, stone, ice and buildings stay put.
+
+import { VoxelGrid, VoxelMaterial, clearVoxel, getMaterial } from './voxelGrid';
+
+const DIGGABLE: VoxelMaterial[] = ['snow', 'dirt'];
+
+export const isDiggable = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    return DIGGABLE.includes(getMaterial(grid, x, y, z));
+};
+
+// Returns false (and leaves the grid untouched) if the voxel can't be dug
+export const digVoxel = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    return isDiggable(grid, x, y, z) && clearVoxel(grid, x, y, z);
+};
@@ -0,0 +1,40 @@
+// --- Doors & Keys ---
+// Houses marked `locked` in the level need a key. Each key is left in one of the unlocked
+// houses or carried by a snowman, picked from the seed so a hunt always hides them the same way.
+
+import { DoorState, Gift, LevelDefinition } from '../types';
+import { createRng, deriveSeed } from './random';
+
+// Where the key to `door` is: inside another building, or dropped by a snowman
+export type KeyHolder =
+    | { door: number, house: number }
+    | { door: number, snowman: number };
+
+// Doors are numbered like the buildings they belong to
+export const initialDoors = (level: LevelDefinition): DoorState[] => {
+    return level.buildings.map(b => ({ open: false, locked: !!b.locked }));
+};
+
+export const snowmanCount = (level: LevelDefinition) => Math.max(level.spawns.snowmen.count, level.spawns.snowmen.spots.length);
+
+export const planKeys = (level: LevelDefinition, seed: number): KeyHolder[] => {
+    const rng = createRng(deriveSeed(seed, 'keys'));
+    const houses = level.buildings.flatMap((b, i) => b.locked ? [] : [i]);
+    // A snowman carries one key at most
+    const snowmen = Array.from({ length: snowmanCount(level) }, (_, i) => i);
+
+    return level.buildings.flatMap((b, door): KeyHolder[] => {
+        if (!b.locked) return [];
+        const inHouse = houses.length > 0 && (snowmen.length === 0 || rng() < 0.5);
+        if (inHouse) return [{ door, house: houses[Math.floor(rng() * houses.length)] }];
+        if (snowmen.length === 0) return []; // Nowhere to put it; the level loader rejects this
+        const [snowman] = snowmen.splice(Math.floor(rng() * snowmen.length), 1);
+        return [{ door, snowman }];
+    });
+};
+
+// Presents count towards the hunt; keys don't
+export const isPresent = (gift: Gift) => gift.type !== 'key';
+
+// Gifts inside a locked house only count once its door has been opened
+export const isReachable = (gift: Gift, doors: DoorState[]) => gift.house === undefined || !doors[gift.house]?.locked;
@@ -0,0 +1,137 @@
+// --- Game Events ---
+// A typed bus for what happens during a hunt. Most events are read off the difference
+// between two game states, so every way of changing the hunt (clicks, thrown snowballs,
+// restores) reports the same way; effects, sound, the HUD and the session log listen.
+
+import { GameMode, GameState, GiftSource, GiftType, ObjectiveDefinition, SnowmanVariant, Vector3Tuple } from '../types';
+import { GeneratedWorld } from './worldGen';
+import { snowmanDrops } from './hunt';
+import { isIceBroken } from './pond';
+import { objectiveStatus, objectivesComplete } from './objectives';
+
+export type GameEventPayload =
+    | { type: 'huntStarted', seed: number, mode: GameMode, level: string }
+    | { type: 'giftCollected', giftId: number, giftType: GiftType, source: GiftSource, fished: boolean }
+    | { type: 'snowmanHit', snowmanId: number, variant: SnowmanVariant, hp: number }
+    | { type: 'snowmanKilled', snowmanId: number, variant: SnowmanVariant, drops: number }
+    | { type: 'doorToggled', door: number, open: boolean }
+    | { type: 'doorUnlocked', door: number }
+    | { type: 'doorRattled', door: number } // Tried without its key
+    | { type: 'iceCracked', cracks: number, broken: boolean, sunk: number } // `sunk`: gifts that went under with it
+    | { type: 'questAdvanced', objective: string, step: number, label: string } // `label`: the step now being worked on
+    | { type: 'objectiveCompleted', objective: string, label: string }
+    | { type: 'achievementUnlocked', achievement: string, label: string }
+    | { type: 'hintUsed', giftId: number }
+    | { type: 'playerFrosted' }
+    | { type: 'playerMoved', heading: number } // Sampled a few times a minute for the session log
+    | { type: 'huntWon', found: number }
+    | { type: 'timeUp', found: number };
+
+export type GameEventType = GameEventPayload['type'];
+
+// What listeners receive: the payload, when it happened and (if it has one) where
+export type GameEvent = GameEventPayload & {
+    at: number; // Unix ms
+    elapsed: number; // Seconds into the hunt
+    position?: Vector3Tuple;
+};
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+type Listener = (event: GameEvent) => void;
+
+export interface EventBus {
+    emit: (payload: GameEventPayload, elapsed: number, position?: Vector3Tuple) => void;
+    on: <T extends GameEventType>(type: T, listener: (event: GameEventOf<T>) => void) => () => void;
+    onAny: (listener: Listener) => () => void;
+}
+
+export const createEventBus = (): EventBus => {
+    const listeners = new Set<Listener>();
+
+    const onAny = (listener: Listener) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return {
+        emit: (payload, elapsed, position) => {
+            const event = { ...payload, at: Date.now(), elapsed, position } as GameEvent;
+            listeners.forEach(listener => listener(event));
+        },
+        on: (type, listener) => onAny(event => {
+            if (event.type === type) listener(event as GameEventOf<typeof type>);
+        }),
+        onAny,
+    };
+};
+
+// The app-wide bus
+export const gameEvents = createEventBus();
+
+export type PendingEvent = { payload: GameEventPayload, position?: Vector3Tuple };
+
+// Events implied by going from `prev` to `next`. A hunt counts as started once it is running
+// with its gifts placed; that transition (first start, restart, restored save) reports only the start.
+export const diffGameEvents = (prev: GameState, next: GameState, world: GeneratedWorld | null, objectives: ObjectiveDefinition[]): PendingEvent[] => {
+    const isLive = (state: GameState) => state.started && state.gifts.length > 0;
+    if (!isLive(next)) return [];
+    if (!isLive(prev) || prev.seed !== next.seed) {
+        return [{ payload: { type: 'huntStarted', seed: next.seed, mode: next.mode, level: world?.level.name ?? '' } }];
+    }
+
+    const events: PendingEvent[] = [];
+
+    const prevGifts = new Map(prev.gifts.map(g => [g.id, g]));
+    next.gifts.forEach(gift => {
+        const before = prevGifts.get(gift.id);
+        if (gift.collected && before?.collected === false) {
+            const fished = !!before.sunk;
+            events.push({ payload: { type: 'giftCollected', giftId: gift.id, giftType: gift.type, source: gift.source, fished }, position: gift.position });
+        }
+    });
+
+    const prevSnowmen = new Map(prev.snowmen.map(s => [s.id, s]));
+    next.snowmen.forEach(snowman => {
+        const before = prevSnowmen.get(snowman.id);
+        if (!before || snowman.hp >= before.hp) return;
+        const position = snowman.position;
+        if (snowman.isDead && !before.isDead) {
+            const drops = snowmanDrops(snowman).length; // Its key too, if it carried one
+            events.push({ payload: { type: 'snowmanKilled', snowmanId: snowman.id, variant: snowman.variant, drops }, position });
+        } else {
+            events.push({ payload: { type: 'snowmanHit', snowmanId: snowman.id, variant: snowman.variant, hp: snowman.hp }, position });
+        }
+    });
+
+    next.doors.forEach(({ open, locked }, door) => {
+        const before = prev.doors[door];
+        const position = world?.doors[door]?.position;
+        if (before?.locked && !locked) events.push({ payload: { type: 'doorUnlocked', door }, position });
+        if (open !== !!before?.open) events.push({ payload: { type: 'doorToggled', door, open }, position });
+    });
+
+    if (next.ice.cracks > prev.ice.cracks) {
+        const broken = isIceBroken(next.ice) && !isIceBroken(prev.ice);
+        const sunk = broken ? next.gifts.filter(g => g.sunk).length - prev.gifts.filter(g => g.sunk).length : 0;
+        events.push({ payload: { type: 'iceCracked', cracks: next.ice.cracks, broken, sunk }, position: next.ice.origin ?? undefined });
+    }
+
+    objectives.forEach(objective => {
+        const before = objectiveStatus(objective, prev);
+        const after = objectiveStatus(objective, next);
+        if (after.done && !before.done) {
+            events.push({ payload: { type: 'objectiveCompleted', objective: objective.id, label: objective.label } });
+        } else if (after.step && before.step && after.step.index > before.step.index) {
+            events.push({ payload: { type: 'questAdvanced', objective: objective.id, step: after.step.index, label: after.step.label } });
+        }
+    });
+
+    if (next.gameOver && !prev.gameOver) {
+        const won = objectivesComplete(objectives, next);
+        events.push({ payload: won ? { type: 'huntWon', found: next.foundCount } : { type: 'timeUp', found: next.foundCount } });
+    }
+    return events;
+};
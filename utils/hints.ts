@@ -0,0 +1,47 @@
+// --- Gift Radar ---
+// Hot-and-cold helpers for the hint compass: which gift is nearest to where the player
+// is looking, which way it lies, and whether the last move got closer.
+
+import { DoorState, Gift, Vector3Tuple } from '../types';
+import { isPresent, isReachable } from './doors';
+
+export const HINT_CHARGES = 3; // Reveals per hunt
+export const HINT_SECONDS = 6; // How long a revealed gift shows through walls
+export const WARMTH_STEP = 2; // World units the distance must change before warmer/colder flips
+
+// Where the camera is looking from, reported by the scene a few times a second
+export interface ViewInfo {
+    target: Vector3Tuple; // Orbit target, or the walker's position
+    position: Vector3Tuple; // Camera
+    heading: number; // Compass bearing the camera faces, in radians
+}
+
+export type Warmth = 'warmer' | 'colder';
+
+// Compass bearing of an XZ offset: 0 is -Z, increasing clockwise seen from above
+export const bearing = (dx: number, dz: number): number => Math.atan2(dx, -dz);
+
+// Nearest present still to find, buried ones included (the radar says where to dig). Gifts lost
+// under the ice are left out. A present behind a locked door only counts once its key is found;
+// until then the radar points at that key instead.
+export const findNearestGift = (gifts: Gift[], doors: DoorState[], from: Vector3Tuple): { gift: Gift, distance: number } | null => {
+    const remaining = gifts.filter(g => !g.collected && !g.sunk);
+    const keyFound = (door: number) => gifts.some(g => g.collected && g.unlocks === door);
+    const blocked = new Set(remaining.filter(g => isPresent(g) && !isReachable(g, doors)).map(g => g.house));
+    const wanted = (gift: Gift) => isPresent(gift)
+        ? isReachable(gift, doors) || (gift.house !== undefined && keyFound(gift.house))
+        : gift.unlocks !== undefined && blocked.has(gift.unlocks) && isReachable(gift, doors);
+
+    let nearest: { gift: Gift, distance: number } | null = null;
+    remaining.forEach(gift => {
+        if (!wanted(gift)) return;
+        const distance = Math.hypot(gift.position[0] - from[0], gift.position[2] - from[2]);
+        if (!nearest || distance < nearest.distance) nearest = { gift, distance };
+    });
+    return nearest;
+};
+
+// Arrow angle on screen (radians clockwise from straight up) pointing at `to`
+export const compassAngle = (view: ViewInfo, to: Vector3Tuple): number => {
+    return bearing(to[0] - view.target[0], to[2] - view.target[2]) - view.heading;
+};
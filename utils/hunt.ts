@@ -0,0 +1,269 @@
+// --- Hunt Generation ---
+// Places gifts and snowmen according to the level's spawn rules, on top of the real terrain.
+
+import { Gift, GiftSource, GiftType, LevelDefinition, Snowman } from '../types';
+import { Rng, createRng, deriveSeed, pick } from './random';
+import { Terrain } from './terrain';
+import { isDiggable } from './dig';
+import { VOXEL_SIZE } from './worldGen';
+import { MAX_LOOT, SNOWMAN_VARIANTS, pickVariant } from './snowmanVariants';
+import { planKeys } from './doors';
+
+// Helper to get random color
+const getRandomColor = (rng: Rng) => {
+    const colors = ['#ff0000', '#00ff00', '#3333ff', '#ffd700', '#ff00ff', '#00ffff', '#ff6b00'];
+    return pick(rng, colors);
+};
+
+// Helper to get random gift type
+const getRandomType = (rng: Rng): GiftType => {
+    const types: GiftType[] = ['box', 'box', 'cane', 'ornament', 'ornament', 'stocking', 'gingerbread', 'star'];
+    return pick(rng, types);
+};
+
+export const generateGifts = (level: LevelDefinition, seed: number, terrain: Terrain): Gift[] => {
+    const rng = createRng(deriveSeed(seed, 'gifts'));
+    const rules = level.spawns.gifts;
+    const gifts: Gift[] = [];
+    let idCounter = 0;
+
+    const addGift = (source: GiftSource, x: number, y: number, z: number, type: GiftType = getRandomType(rng)) => {
+        const gift: Gift = {
+            id: idCounter++,
+            position: [x, y, z],
+            color: getRandomColor(rng),
+            collected: false,
+            type: type,
+            source,
+            rotation: [rng() * 0.5, rng() * Math.PI * 2, rng() * 0.5]
+        };
+        gifts.push(gift);
+        return gift;
+    };
+
+    // 1. PLACE ON TREE (Spiral upwards)
+    // Matches the world generator's tree logic for surface placement.
+    const { x: treeX, z: treeZ, height: treeHeight, radius: maxRadius } = level.tree;
+
+    for (let i = 0; i < rules.tree.count; i++) {
+        const heightPercent = rules.tree.minHeight + (rng() * (rules.tree.maxHeight - rules.tree.minHeight));
+        const yVoxel = heightPercent * treeHeight;
+
+        // Exact radius logic from the world generator:
+        // currentRadius = maxRadius * (1 - progress) + (Math.sin(y * 0.5) * 1.5);
+        const radiusAtHeight = maxRadius * (1 - heightPercent) + (Math.sin(yVoxel * 0.5) * 1.5);
+
+        // Place on the edge (foliage surface)
+        const angle = rng() * Math.PI * 2;
+
+        // Place slightly OUTSIDE the calculated radius (radius + 1.5 voxels)
+        // ensuring items are visible on the surface rather than buried inside.
+        const r = radiusAtHeight + 1.5;
+
+        const xVoxel = treeX + Math.cos(angle) * r;
+        const zVoxel = treeZ + Math.sin(angle) * r;
+
+        addGift(
+            'tree',
+            xVoxel * VOXEL_SIZE,
+            (yVoxel * VOXEL_SIZE),
+            zVoxel * VOXEL_SIZE,
+            i % 2 === 0 ? 'ornament' : 'star'
+        );
+    }
+
+    // 2. PLACE IN HOUSES
+    // Somewhere on the floor inside a building, clear of the walls
+    const spotInside = (index: number, random: Rng): [number, number, number] => {
+        const b = level.buildings[index];
+        // Footprint swaps axes for rotated houses
+        const spanX = b.rotation === 0 ? b.width : b.depth;
+        const spanZ = b.rotation === 0 ? b.depth : b.width;
+        const rX = (random() - 0.5) * Math.max(0, spanX - rules.houses.margin * 2);
+        const rZ = (random() - 0.5) * Math.max(0, spanZ - rules.houses.margin * 2);
+        const floorY = terrain.getGround(b.x + rX, b.z + rZ)?.y ?? 0;
+        return [(b.x + rX) * VOXEL_SIZE, (floorY * VOXEL_SIZE) + 0.3, (b.z + rZ) * VOXEL_SIZE]; // +0.3 to sit on floor.
+    };
+
+    level.buildings.forEach((_, house) => {
+        const numInside = rules.houses.min + Math.floor(rng() * (rules.houses.max - rules.houses.min + 1));
+
+        for (let k = 0; k < numInside; k++) {
+            addGift('house', ...spotInside(house, rng), 'stocking').house = house;
+        }
+    });
+
+    // 3. PLACE ON ICE POND
+    for (let i = 0; i < rules.pond.count; i++) {
+        const angle = rng() * Math.PI * 2;
+        const r = rng() * rules.pond.radius;
+        const px = level.pond.x + Math.cos(angle) * r;
+        const pz = level.pond.z + Math.sin(angle) * r;
+        const iceY = terrain.getGround(px, pz)?.y ?? -2;
+
+        addGift(
+            'pond',
+            px * VOXEL_SIZE,
+            (iceY * VOXEL_SIZE) + 0.3, // Sit on ice
+            pz * VOXEL_SIZE,
+            'cane'
+        );
+    }
+
+    // 4. HAND-PLACED SPAWN POINTS
+    (rules.fixed ?? []).forEach(spawn => {
+        const groundY = terrain.getGround(spawn.x, spawn.z)?.y ?? 0;
+        addGift('fixed', spawn.x * VOXEL_SIZE, (groundY * VOXEL_SIZE) + 0.5, spawn.z * VOXEL_SIZE, spawn.type ?? getRandomType(rng));
+    });
+
+    // 5. RANDOM TERRAIN SCATTER (The rest)
+    const remaining = Math.max(0, rules.scatter.fillTo - gifts.length);
+
+    for (let i = 0; i < remaining; i++) {
+        let valid = false;
+        let attempts = 0;
+
+        while (!valid && attempts < 50) {
+            attempts++;
+            // Random scan in a large area
+            const xVoxel = (rng() - 0.5) * 2 * rules.scatter.range;
+            const zVoxel = (rng() - 0.5) * 2 * rules.scatter.range;
+
+            // Avoid the tree trunk
+            if (Math.sqrt((xVoxel - treeX)**2 + (zVoxel - treeZ)**2) < rules.scatter.clearRadius) continue;
+
+            // Get exact terrain height, skipping spots buried under foliage or inside walls
+            const ground = terrain.getGround(xVoxel, zVoxel);
+            if (!ground) continue;
+            if (!terrain.hasClearance(xVoxel, ground.y, zVoxel, 3)) continue;
+
+            // Convert to world
+            const worldY = (ground.y * VOXEL_SIZE) + 0.5; // +0.5 to lift center of gift box above ground
+
+            addGift('scatter', xVoxel * VOXEL_SIZE, worldY, zVoxel * VOXEL_SIZE);
+            valid = true;
+        }
+    }
+
+    // 6. BURIED UNDER THE SNOW (only collectible once dug out)
+    const buried = rules.buried;
+    for (let i = 0; buried && i < buried.count; i++) {
+        for (let attempts = 0; attempts < 50; attempts++) {
+            const xVoxel = Math.round((rng() - 0.5) * 2 * buried.range);
+            const zVoxel = Math.round((rng() - 0.5) * 2 * buried.range);
+
+            // Only open snowfields: diggable ground with nothing built on top
+            const ground = terrain.getGround(xVoxel, zVoxel);
+            if (!ground || ground.material !== 'snow') continue;
+            if (!terrain.hasClearance(xVoxel, ground.y, zVoxel, 3)) continue;
+
+            const depth = 1 + Math.floor(rng() * buried.maxDepth);
+            const yVoxel = ground.y - depth;
+            if (!isDiggable(terrain.grid, xVoxel, yVoxel, zVoxel)) continue;
+
+            addGift('buried', xVoxel * VOXEL_SIZE, yVoxel * VOXEL_SIZE, zVoxel * VOXEL_SIZE, 'box').buried = [xVoxel, yVoxel, zVoxel];
+            break;
+        }
+    }
+
+    // 7. KEYS LEFT IN HOUSES (own stream and placed last, so locks don't move the other gifts)
+    const keyRng = createRng(deriveSeed(seed, 'key-spots'));
+    planKeys(level, seed).forEach(holder => {
+        if (!('house' in holder)) return;
+        const key = addGift('house', ...spotInside(holder.house, keyRng), 'key');
+        key.house = holder.house;
+        key.unlocks = holder.door;
+    });
+
+    return gifts;
+};
+
+// Drops are numbered below zero, a block per snowman (with room for a key), so they never clash with generated gifts
+const dropId = (snowmanId: number, slot: number) => -1 - (snowmanId * (MAX_LOOT + 1) + slot);
+
+// The gifts a snowman leaves behind when broken, from its variant's loot table
+export const snowmanDrops = (snowman: Snowman): Gift[] => {
+    const { loot: variantLoot, scale } = SNOWMAN_VARIANTS[snowman.variant];
+    const loot: GiftType[] = snowman.key === undefined ? variantLoot : [...variantLoot, 'key'];
+    return loot.map((type, slot) => {
+        // Spread in a ring around where the snowman stood
+        const angle = snowman.rotation + (slot / loot.length) * Math.PI * 2;
+        const spread = loot.length > 1 ? 0.8 * scale : 0;
+        return {
+            id: dropId(snowman.id, slot),
+            // Spawn gift slightly above where snowman was
+            position: [snowman.position[0] + Math.sin(angle) * spread, snowman.position[1] + 1.0, snowman.position[2] + Math.cos(angle) * spread],
+            color: '#ff00ff',
+            collected: false,
+            type,
+            source: 'snowman',
+            rotation: [0, angle, 0],
+            unlocks: type === 'key' ? snowman.key : undefined,
+        };
+    });
+};
+
+export const generateSnowmen = (level: LevelDefinition, seed: number, terrain: Terrain): Snowman[] => {
+    const rng = createRng(deriveSeed(seed, 'snowmen'));
+    // Own stream, so adding variants didn't move the snowmen of existing seeds
+    const variantRng = createRng(deriveSeed(seed, 'snowman-variants'));
+    const rules = level.spawns.snowmen;
+    const snowmen: Snowman[] = [];
+    const keys = planKeys(level, seed);
+
+    // Hand-placed spots always spawn, even if they outnumber `count`
+    const total = Math.max(rules.count, rules.spots.length);
+
+    for (let i = 0; i < total; i++) {
+        let xVoxel = 10;
+        let zVoxel = 10;
+        let valid = false;
+        let attempts = 0;
+
+        if (i < rules.spots.length) {
+            // Specific scenic spots for first few
+            [xVoxel, zVoxel] = rules.spots[i];
+        } else {
+            // Random placement
+            while (!valid && attempts < 20) {
+                attempts++;
+                const x = (rng() - 0.5) * 2 * rules.range;
+                const z = (rng() - 0.5) * 2 * rules.range;
+
+                // Avoid the tree
+                if (Math.sqrt((x - level.tree.x)**2 + (z - level.tree.z)**2) < rules.clearRadius) continue;
+
+                // Needs solid ground and room to stand (no tree branches or house walls)
+                const ground = terrain.getGround(x, z);
+                if (!ground) continue;
+                if (!terrain.hasClearance(x, ground.y, z, 10)) continue;
+
+                xVoxel = x;
+                zVoxel = z;
+                valid = true;
+            }
+        }
+
+        // Calculate Ground Height
+        const yVoxel = terrain.getGround(xVoxel, zVoxel)?.y ?? 0;
+
+        // Snowman visual adjustment
+        const worldY = (yVoxel * VOXEL_SIZE);
+        const variant = pickVariant(variantRng);
+
+        snowmen.push({
+            id: i,
+            position: [xVoxel * VOXEL_SIZE, worldY, zVoxel * VOXEL_SIZE],
+            rotation: rng() * Math.PI * 2,
+            variant,
+            hp: SNOWMAN_VARIANTS[variant].maxHp,
+            isDead: false,
+            // Staggered so they don't all set off at once
+            mood: 'idle',
+            moodTime: rng() * 4,
+            cooldown: 3 + rng() * 6,
+            key: keys.find(k => 'snowman' in k && k.snowman === i)?.door,
+        });
+    }
+    return snowmen;
+};
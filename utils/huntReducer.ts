@@ -0,0 +1,141 @@
+// --- Hunt Inputs ---
+// Every change the player (or the clock, or the snowmen) makes to a running hunt, as plain
+// data, and the pure function that applies one. Live play and replays go through the same path.
+
+import { GameState, Gift, LevelDefinition, ObjectiveDefinition, Vector3Tuple } from '../types';
+import { VoxelMaterial } from './voxelGrid';
+import { createRng, deriveSeed } from './random';
+import { Terrain } from './terrain';
+import { CHALLENGE_SECONDS } from './scoring';
+import { hitSnowman, stepSnowmen } from './snowmanAI';
+import { snowmanDrops } from './hunt';
+import { SNOWBALL_CAPACITY } from './throwing';
+import { ICE_BREAK_CRACKS, hookedGift, isIceBroken, sinkGifts } from './pond';
+import { isPresent, isReachable } from './doors';
+import { advanceQuests, objectivesComplete } from './objectives';
+
+export type HuntInput =
+    | { kind: 'clock' } // One second of play
+    | { kind: 'collect', giftId: number }
+    | { kind: 'snowmanHit', snowmanId: number }
+    | { kind: 'dig', voxel: Vector3Tuple } // Already removed from the grid by the caller
+    | { kind: 'door', index: number } // Opens or closes it; a locked door opens only with its key (used up)
+    | { kind: 'crackIce', at: Vector3Tuple } // The shattering hit must already have melted the ice out of the grid
+    | { kind: 'fish', at: Vector3Tuple } // A line reeled in from where it landed in the water
+    | { kind: 'snowmenTick', tick: number, dt: number, player: Vector3Tuple }
+    | { kind: 'snowballLand', snowballId: number }
+    | { kind: 'throw' }
+    | { kind: 'scoop' }
+    | { kind: 'hint', giftId: number }
+    // A click and what it hit; changes nothing, but shows up in replays ("I clicked it!")
+    | { kind: 'pick', origin: Vector3Tuple, direction: Vector3Tuple, hit: 'gift' | 'snowman' | 'door' | VoxelMaterial | null, id?: number };
+
+export type PickInput = Extract<HuntInput, { kind: 'pick' }>;
+
+export interface HuntContext {
+    terrain: Terrain | null; // Needed by the snowmen; their step is skipped without it
+    objectives: ObjectiveDefinition[]; // All done wins the hunt
+    pond: LevelDefinition['pond'];
+    buildings: LevelDefinition['buildings']; // Quest goals name houses by building id
+}
+
+// Picks a gift up: a present counts towards the hunt, a key goes in the pocket
+const takeGift = (state: GameState, gift: Gift): GameState => {
+    const gifts = state.gifts.map(g => g.id === gift.id ? { ...g, collected: true } : g);
+    if (!isPresent(gift)) {
+        return { ...state, gifts, keys: gift.unlocks === undefined ? state.keys : [...state.keys, gift.unlocks] };
+    }
+    return { ...state, gifts, foundCount: state.foundCount + 1 };
+};
+
+const applyInput = (state: GameState, input: HuntInput, { terrain, pond }: HuntContext): GameState => {
+    switch (input.kind) {
+        case 'clock': {
+            const elapsed = state.elapsed + 1;
+            return { ...state, elapsed, gameOver: state.gameOver || (state.mode === 'challenge' && elapsed >= CHALLENGE_SECONDS) };
+        }
+
+        case 'collect': {
+            const gift = state.gifts.find(g => g.id === input.giftId);
+            if (!gift || gift.collected || gift.buried || gift.sunk || !isReachable(gift, state.doors)) return state;
+            return takeGift(state, gift);
+        }
+
+        case 'snowmanHit': {
+            const snowman = state.snowmen.find(s => s.id === input.snowmanId);
+            if (!snowman || snowman.isDead) return state;
+            const hit = hitSnowman(snowman);
+            return {
+                ...state,
+                snowmen: state.snowmen.map(s => s.id === input.snowmanId ? hit : s),
+                gifts: hit.isDead ? [...state.gifts, ...snowmanDrops(hit)] : state.gifts,
+            };
+        }
+
+        case 'dig': {
+            const [x, y, z] = input.voxel;
+            return {
+                ...state,
+                dug: [...state.dug, input.voxel],
+                // A buried gift is uncovered once the voxel holding it is dug out
+                gifts: state.gifts.map(g => g.buried && g.buried[0] === x && g.buried[1] === y && g.buried[2] === z ? { ...g, buried: undefined } : g),
+            };
+        }
+
+        case 'door': {
+            const door = state.doors[input.index];
+            if (!door || (door.locked && !state.keys.includes(input.index))) return state;
+            const doors = [...state.doors];
+            doors[input.index] = { open: !door.open, locked: false };
+            return { ...state, doors, keys: door.locked ? state.keys.filter(k => k !== input.index) : state.keys };
+        }
+
+        case 'crackIce': {
+            if (isIceBroken(state.ice)) return state;
+            const ice = { cracks: state.ice.cracks + 1, origin: state.ice.origin ?? input.at };
+            return { ...state, ice, gifts: ice.cracks >= ICE_BREAK_CRACKS ? sinkGifts(state.gifts, pond) : state.gifts };
+        }
+
+        case 'fish': {
+            const gift = hookedGift(state.gifts, input.at);
+            return gift ? takeGift(state, gift) : state;
+        }
+
+        case 'snowmenTick': {
+            if (!terrain) return state;
+            // Each step gets its own stream, so a replay of the same ticks behaves the same
+            const rng = createRng(deriveSeed(state.seed, `snowman-ai:${input.tick}`));
+            const step = stepSnowmen(state.snowmen, terrain, input.dt, input.player, rng);
+            return {
+                ...state,
+                snowmen: step.snowmen,
+                snowballs: step.throws.length === 0
+                    ? state.snowballs
+                    : [...state.snowballs, ...step.throws.map((t, i) => ({ ...t, id: input.tick * 100 + i }))],
+            };
+        }
+
+        case 'snowballLand':
+            return { ...state, snowballs: state.snowballs.filter(b => b.id !== input.snowballId) };
+
+        case 'throw':
+            return { ...state, ammo: Math.max(0, state.ammo - 1) };
+
+        case 'scoop':
+            return { ...state, ammo: Math.min(SNOWBALL_CAPACITY, state.ammo + 1) };
+
+        case 'hint':
+            return { ...state, hintsUsed: state.hintsUsed + 1 };
+
+        case 'pick':
+            return state;
+    }
+};
+
+// Any change can move a quest on or finish the last objective
+export const reduceHunt = (state: GameState, input: HuntInput, context: HuntContext): GameState => {
+    const next = applyInput(state, input, context);
+    if (next === state) return state;
+    const tracked = advanceQuests(context.objectives, context.buildings, state, next);
+    return tracked.gameOver || !objectivesComplete(context.objectives, tracked) ? tracked : { ...tracked, gameOver: true };
+};
@@ -0,0 +1,71 @@
+// --- Local Leaderboard ---
+// Challenge scores in localStorage, one table per seed and level so runs on the same hunt compete.
+
+import { LevelDefinition } from '../types';
+import { hashString } from './random';
+
+const LEADERBOARD_KEY = 'christmas-hunt:leaderboard';
+const PLAYER_KEY = 'christmas-hunt:player';
+
+export const LEADERBOARD_SIZE = 10;
+
+export interface LeaderboardEntry {
+    name: string;
+    score: number;
+    found: number;
+    elapsed: number; // Seconds
+    date: number; // Unix ms
+}
+
+type Leaderboard = Record<string, LeaderboardEntry[]>; // Keyed by `boardKey`
+
+// The same seed on an edited or different map is a different hunt, so the level's content is
+// part of the key (its name alone wouldn't notice edits)
+const boardKey = (seed: number, level: LevelDefinition) => `${seed}:${hashString(JSON.stringify(level)).toString(36)}`;
+
+const readAll = (): Leaderboard => {
+    try {
+        const data = JSON.parse(window.localStorage.getItem(LEADERBOARD_KEY) ?? '{}');
+        return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+    } catch {
+        return {};
+    }
+};
+
+// Best first; ties go to the faster run
+const byRank = (a: LeaderboardEntry, b: LeaderboardEntry) => b.score - a.score || a.elapsed - b.elapsed;
+
+export const readLeaderboard = (seed: number, level: LevelDefinition): LeaderboardEntry[] => {
+    const entries = readAll()[boardKey(seed, level)];
+    return Array.isArray(entries) ? entries.filter(e => typeof e?.score === 'number').sort(byRank) : [];
+};
+
+// Records a run and returns the hunt's updated table (the entry may not make the cut)
+export const addScore = (seed: number, level: LevelDefinition, entry: LeaderboardEntry): LeaderboardEntry[] => {
+    const all = readAll();
+    const entries = [...readLeaderboard(seed, level), entry].sort(byRank).slice(0, LEADERBOARD_SIZE);
+    all[boardKey(seed, level)] = entries;
+    try {
+        window.localStorage.setItem(LEADERBOARD_KEY, JSON.stringify(all));
+    } catch {
+        // Storage unavailable; the table still shows for this session
+    }
+    return entries;
+};
+
+// Last name entered, to prefill the prompt
+export const readPlayerName = (): string => {
+    try {
+        return window.localStorage.getItem(PLAYER_KEY) ?? '';
+    } catch {
+        return '';
+    }
+};
+
+export const writePlayerName = (name: string) => {
+    try {
+        window.localStorage.setItem(PLAYER_KEY, name);
+    } catch {
+        // Not remembered; no harm done
+    }
+};
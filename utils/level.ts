@@ -0,0 +1,356 @@
+// --- Level Loading ---
+// Validates level JSON against the LevelDefinition schema. Every problem is collected
+// so a broken map reports all of its mistakes at once, e.g.
+//   buildings[2].width: expected a number, got "wide"
+
+import {
+    GiftSource, GiftType, LevelBuilding, LevelDefinition, LevelGiftSpawn, LevelPath, LevelSpawnRules, ObjectiveDefinition, Point2,
+    QuestGoal, QuestStep, SnowmanVariant,
+} from '../types';
+import { WORLD_RADIUS } from './worldGen';
+import { snowmanCount } from './doors';
+import { SNOWMAN_VARIANTS } from './snowmanVariants';
+import defaultLevelJson from '../levels/default.json';
+
+export const LEVEL_VERSION = 1;
+
+export class LevelValidationError extends Error {
+    issues: string[];
+
+    constructor(source: string, issues: string[]) {
+        super(`Invalid level "${source}":\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+        this.name = 'LevelValidationError';
+        this.issues = issues;
+    }
+}
+
+// --- Validation Helpers ---
+
+type Issues = string[];
+
+const describe = (value: unknown): string => {
+    if (value === undefined) return 'nothing';
+    if (typeof value === 'string') return `"${value}"`;
+    if (Array.isArray(value)) return 'an array';
+    if (value === null) return 'null';
+    if (typeof value === 'object') return 'an object';
+    return String(value);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+// Returns the object plus the list its fields should report into. When the section itself
+// is missing, field errors go to a throwaway list so one mistake isn't reported ten times.
+const readSection = (issues: Issues, path: string, value: unknown): [Record<string, unknown>, Issues] => {
+    if (isRecord(value)) return [value, issues];
+    issues.push(`${path}: expected an object, got ${describe(value)}`);
+    return [{}, []];
+};
+
+const readArray = (issues: Issues, path: string, value: unknown): unknown[] => {
+    if (Array.isArray(value)) return value;
+    issues.push(`${path}: expected an array, got ${describe(value)}`);
+    return [];
+};
+
+const readNumber = (issues: Issues, path: string, value: unknown, min = -Infinity, max = Infinity): number => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${path}: expected a number, got ${describe(value)}`);
+        return 0;
+    }
+    if (value < min) issues.push(`${path}: expected a number >= ${min}, got ${value}`);
+    if (value > max) issues.push(`${path}: expected a number <= ${max}, got ${value}`);
+    return value;
+};
+
+const readInteger = (issues: Issues, path: string, value: unknown, min = 0, max = Infinity): number => {
+    const n = readNumber(issues, path, value, min, max);
+    if (!Number.isInteger(n)) issues.push(`${path}: expected a whole number, got ${n}`);
+    return n;
+};
+
+const readString = (issues: Issues, path: string, value: unknown): string => {
+    if (typeof value === 'string' && value.trim() !== '') return value;
+    issues.push(`${path}: expected a non-empty string, got ${describe(value)}`);
+    return '';
+};
+
+const readPoint = (issues: Issues, path: string, value: unknown): Point2 => {
+    if (!Array.isArray(value) || value.length !== 2) {
+        issues.push(`${path}: expected an [x, z] pair, got ${describe(value)}`);
+        return [0, 0];
+    }
+    return [
+        readNumber(issues, `${path}[0]`, value[0], -WORLD_RADIUS, WORLD_RADIUS),
+        readNumber(issues, `${path}[1]`, value[1], -WORLD_RADIUS, WORLD_RADIUS),
+    ];
+};
+
+// Footprint has to stay on the island, otherwise walls get clipped by the voxel grid
+const checkOnIsland = (issues: Issues, path: string, x: number, z: number, extent: number) => {
+    if (Math.sqrt(x * x + z * z) + extent > WORLD_RADIUS) {
+        issues.push(`${path}: extends past the island edge (radius ${WORLD_RADIUS})`);
+    }
+};
+
+// --- Section Readers ---
+
+const GIFT_TYPES: GiftType[] = ['box', 'cane', 'ornament', 'stocking', 'gingerbread', 'star'];
+
+// An optional field that has to be one of `options`
+const readChoice = <T extends string>(issues: Issues, path: string, value: unknown, options: readonly T[]): T | undefined => {
+    if (value === undefined) return undefined;
+    if (options.includes(value as T)) return value as T;
+    issues.push(`${path}: expected one of ${options.join(', ')}, got ${describe(value)}`);
+    return undefined;
+};
+
+const readGiftSpawn = (parentIssues: Issues, path: string, value: unknown): LevelGiftSpawn => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const spawn: LevelGiftSpawn = {
+        x: readNumber(issues, `${path}.x`, o.x, -WORLD_RADIUS, WORLD_RADIUS),
+        z: readNumber(issues, `${path}.z`, o.z, -WORLD_RADIUS, WORLD_RADIUS),
+    };
+    if (o.type !== undefined) {
+        if (GIFT_TYPES.includes(o.type as GiftType)) spawn.type = o.type as GiftType;
+        else issues.push(`${path}.type: expected one of ${GIFT_TYPES.join(', ')}, got ${describe(o.type)}`);
+    }
+    return spawn;
+};
+
+const readBuilding = (parentIssues: Issues, path: string, value: unknown): LevelBuilding => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const building: LevelBuilding = {
+        id: readString(issues, `${path}.id`, o.id),
+        x: readNumber(issues, `${path}.x`, o.x, -WORLD_RADIUS, WORLD_RADIUS),
+        z: readNumber(issues, `${path}.z`, o.z, -WORLD_RADIUS, WORLD_RADIUS),
+        width: readInteger(issues, `${path}.width`, o.width, 6, 40),
+        depth: readInteger(issues, `${path}.depth`, o.depth, 6, 40),
+        height: readInteger(issues, `${path}.height`, o.height, 8, 40),
+        rotation: 0,
+    };
+    if (o.rotation === 0 || o.rotation === 1) building.rotation = o.rotation;
+    else issues.push(`${path}.rotation: expected 0 or 1, got ${describe(o.rotation)}`);
+    if (o.locked === true) building.locked = true;
+    else if (o.locked !== undefined && o.locked !== false) issues.push(`${path}.locked: expected true or false, got ${describe(o.locked)}`);
+    checkOnIsland(issues, path, building.x, building.z, Math.max(building.width, building.depth) / 2 + 1);
+    return building;
+};
+
+const readPath = (parentIssues: Issues, path: string, value: unknown): LevelPath => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const levelPath: LevelPath = {
+        from: readPoint(issues, `${path}.from`, o.from),
+        to: readPoint(issues, `${path}.to`, o.to),
+    };
+    if (o.width !== undefined) levelPath.width = readNumber(issues, `${path}.width`, o.width, 0.5, 8);
+    return levelPath;
+};
+
+const readSpawns = (parentIssues: Issues, path: string, value: unknown): LevelSpawnRules => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const [gifts, giftIssues] = readSection(issues, `${path}.gifts`, o.gifts);
+    const [tree, treeIssues] = readSection(giftIssues, `${path}.gifts.tree`, gifts.tree);
+    const [houses, houseIssues] = readSection(giftIssues, `${path}.gifts.houses`, gifts.houses);
+    const [pond, pondIssues] = readSection(giftIssues, `${path}.gifts.pond`, gifts.pond);
+    const [scatter, scatterIssues] = readSection(giftIssues, `${path}.gifts.scatter`, gifts.scatter);
+    const [buried, buriedIssues] = readSection(giftIssues, `${path}.gifts.buried`, gifts.buried ?? {});
+    const [snowmen, snowmanIssues] = readSection(issues, `${path}.snowmen`, o.snowmen);
+
+    const rules: LevelSpawnRules = {
+        gifts: {
+            fixed: gifts.fixed === undefined ? undefined : readArray(giftIssues, `${path}.gifts.fixed`, gifts.fixed)
+                .map((spawn, i) => readGiftSpawn(giftIssues, `${path}.gifts.fixed[${i}]`, spawn)),
+            tree: {
+                count: readInteger(treeIssues, `${path}.gifts.tree.count`, tree.count, 0, 100),
+                minHeight: readNumber(treeIssues, `${path}.gifts.tree.minHeight`, tree.minHeight, 0, 1),
+                maxHeight: readNumber(treeIssues, `${path}.gifts.tree.maxHeight`, tree.maxHeight, 0, 1),
+            },
+            houses: {
+                min: readInteger(houseIssues, `${path}.gifts.houses.min`, houses.min, 0, 20),
+                max: readInteger(houseIssues, `${path}.gifts.houses.max`, houses.max, 0, 20),
+                margin: readNumber(houseIssues, `${path}.gifts.houses.margin`, houses.margin, 1, 10),
+            },
+            pond: {
+                count: readInteger(pondIssues, `${path}.gifts.pond.count`, pond.count, 0, 50),
+                radius: readNumber(pondIssues, `${path}.gifts.pond.radius`, pond.radius, 0, WORLD_RADIUS),
+            },
+            scatter: {
+                fillTo: readInteger(scatterIssues, `${path}.gifts.scatter.fillTo`, scatter.fillTo, 0, 200),
+                range: readNumber(scatterIssues, `${path}.gifts.scatter.range`, scatter.range, 1, WORLD_RADIUS),
+                clearRadius: readNumber(scatterIssues, `${path}.gifts.scatter.clearRadius`, scatter.clearRadius, 0, WORLD_RADIUS),
+            },
+            buried: gifts.buried === undefined ? undefined : {
+                count: readInteger(buriedIssues, `${path}.gifts.buried.count`, buried.count, 0, 50),
+                maxDepth: readInteger(buriedIssues, `${path}.gifts.buried.maxDepth`, buried.maxDepth, 1, 2),
+                range: readNumber(buriedIssues, `${path}.gifts.buried.range`, buried.range, 1, WORLD_RADIUS),
+            },
+        },
+        snowmen: {
+            count: readInteger(snowmanIssues, `${path}.snowmen.count`, snowmen.count, 0, 50),
+            spots: readArray(snowmanIssues, `${path}.snowmen.spots`, snowmen.spots)
+                .map((spot, i) => readPoint(snowmanIssues, `${path}.snowmen.spots[${i}]`, spot)),
+            range: readNumber(snowmanIssues, `${path}.snowmen.range`, snowmen.range, 1, WORLD_RADIUS),
+            clearRadius: readNumber(snowmanIssues, `${path}.snowmen.clearRadius`, snowmen.clearRadius, 0, WORLD_RADIUS),
+        },
+    };
+
+    if (rules.gifts.tree.minHeight > rules.gifts.tree.maxHeight) {
+        issues.push(`${path}.gifts.tree: minHeight is above maxHeight`);
+    }
+    if (rules.gifts.houses.min > rules.gifts.houses.max) {
+        issues.push(`${path}.gifts.houses: min is above max`);
+    }
+    return rules;
+};
+
+const PLACED_SOURCES: Exclude<GiftSource, 'snowman'>[] = ['tree', 'house', 'pond', 'fixed', 'scatter', 'buried'];
+const GIFT_SOURCES: GiftSource[] = [...PLACED_SOURCES, 'snowman'];
+const SNOWMAN_VARIANT_NAMES = Object.keys(SNOWMAN_VARIANTS) as SnowmanVariant[];
+
+const readQuestGoal = (parentIssues: Issues, path: string, value: unknown): QuestGoal => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const count = () => readInteger(issues, `${path}.count`, o.count, 1, 100);
+    switch (o.kind) {
+        case 'collect':
+            return {
+                kind: 'collect',
+                giftType: readChoice(issues, `${path}.giftType`, o.giftType, GIFT_TYPES),
+                source: readChoice(issues, `${path}.source`, o.source, GIFT_SOURCES),
+                house: o.house === undefined ? undefined : readString(issues, `${path}.house`, o.house),
+                count: count(),
+            };
+        case 'breakSnowmen':
+            return { kind: 'breakSnowmen', variant: readChoice(issues, `${path}.variant`, o.variant, SNOWMAN_VARIANT_NAMES), count: count() };
+        case 'unlockDoors':
+            return { kind: 'unlockDoors', count: count() };
+        case 'breakIce':
+            return { kind: 'breakIce' };
+        default:
+            issues.push(`${path}.kind: expected one of collect, breakSnowmen, unlockDoors, breakIce, got ${describe(o.kind)}`);
+            return { kind: 'breakIce' };
+    }
+};
+
+const readQuestStep = (parentIssues: Issues, path: string, value: unknown): QuestStep => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    return { label: readString(issues, `${path}.label`, o.label), goal: readQuestGoal(issues, `${path}.goal`, o.goal) };
+};
+
+const readObjective = (parentIssues: Issues, path: string, value: unknown): ObjectiveDefinition => {
+    const [o, issues] = readSection(parentIssues, path, value);
+    const id = readString(issues, `${path}.id`, o.id);
+    const label = readString(issues, `${path}.label`, o.label);
+    switch (o.kind) {
+        case 'location':
+            return { kind: 'location', id, label, source: readChoice(issues, `${path}.source`, o.source, PLACED_SOURCES) };
+        case 'count':
+            return {
+                kind: 'count',
+                id,
+                label,
+                giftType: readChoice(issues, `${path}.giftType`, o.giftType, GIFT_TYPES),
+                count: readInteger(issues, `${path}.count`, o.count, 1, 200),
+            };
+        case 'quest': {
+            const steps = readArray(issues, `${path}.steps`, o.steps).map((step, i) => readQuestStep(issues, `${path}.steps[${i}]`, step));
+            if (Array.isArray(o.steps) && steps.length === 0) issues.push(`${path}.steps: a quest needs at least one step`);
+            return { kind: 'quest', id, label, steps };
+        }
+        default:
+            issues.push(`${path}.kind: expected one of location, count, quest, got ${describe(o.kind)}`);
+            return { kind: 'location', id, label };
+    }
+};
+
+// --- Public API ---
+
+// Throws LevelValidationError listing every problem found
+export const loadLevel = (data: unknown, source = 'level'): LevelDefinition => {
+    if (!isRecord(data)) throw new LevelValidationError(source, [`level: expected a JSON object, got ${describe(data)}`]);
+    const o = data;
+    const issues: Issues = [];
+
+    if (o.version !== LEVEL_VERSION) {
+        issues.push(`version: expected ${LEVEL_VERSION}, got ${describe(o.version)}`);
+    }
+
+    const [tree, treeIssues] = readSection(issues, 'tree', o.tree);
+    const [pond, pondIssues] = readSection(issues, 'pond', o.pond);
+
+    const level: LevelDefinition = {
+        version: LEVEL_VERSION,
+        name: readString(issues, 'name', o.name),
+        tree: {
+            x: readNumber(treeIssues, 'tree.x', tree.x, -WORLD_RADIUS, WORLD_RADIUS),
+            z: readNumber(treeIssues, 'tree.z', tree.z, -WORLD_RADIUS, WORLD_RADIUS),
+            height: readInteger(treeIssues, 'tree.height', tree.height, 20, 110),
+            radius: readNumber(treeIssues, 'tree.radius', tree.radius, 4, 40),
+        },
+        pond: {
+            x: readNumber(pondIssues, 'pond.x', pond.x, -WORLD_RADIUS, WORLD_RADIUS),
+            z: readNumber(pondIssues, 'pond.z', pond.z, -WORLD_RADIUS, WORLD_RADIUS),
+            radius: readNumber(pondIssues, 'pond.radius', pond.radius, 4, 40),
+        },
+        buildings: readArray(issues, 'buildings', o.buildings).map((b, i) => readBuilding(issues, `buildings[${i}]`, b)),
+        paths: readArray(issues, 'paths', o.paths).map((p, i) => readPath(issues, `paths[${i}]`, p)),
+        spawns: readSpawns(issues, 'spawns', o.spawns),
+    };
+    if (o.objectives !== undefined) {
+        level.objectives = readArray(issues, 'objectives', o.objectives).map((objective, i) => readObjective(issues, `objectives[${i}]`, objective));
+        if (Array.isArray(o.objectives) && o.objectives.length === 0) issues.push('objectives: expected at least one (leave it out to find every present)');
+    }
+
+    checkOnIsland(issues, 'tree', level.tree.x, level.tree.z, level.tree.radius);
+    checkOnIsland(issues, 'pond', level.pond.x, level.pond.z, level.pond.radius);
+
+    const ids = new Set<string>();
+    level.buildings.forEach((b, i) => {
+        if (ids.has(b.id)) issues.push(`buildings[${i}].id: duplicate id "${b.id}"`);
+        ids.add(b.id);
+    });
+
+    const objectiveIds = new Set<string>();
+    level.objectives?.forEach((objective, i) => {
+        if (objectiveIds.has(objective.id)) issues.push(`objectives[${i}].id: duplicate id "${objective.id}"`);
+        objectiveIds.add(objective.id);
+        if (objective.kind !== 'quest') return;
+        objective.steps.forEach(({ goal }, j) => {
+            if (goal.kind === 'collect' && goal.house !== undefined && !ids.has(goal.house)) {
+                issues.push(`objectives[${i}].steps[${j}].goal.house: no building has the id "${goal.house}"`);
+            }
+        });
+    });
+
+    // Keys need somewhere to be: an unlocked house or a snowman
+    const locked = level.buildings.filter(b => b.locked).length;
+    if (locked > 0 && locked === level.buildings.length && snowmanCount(level) < locked) {
+        issues.push(`buildings: every house is locked and only ${snowmanCount(level)} snowmen can carry the ${locked} keys`);
+    }
+
+    if (issues.length > 0) throw new LevelValidationError(source, issues);
+    return level;
+};
+
+export const DEFAULT_LEVEL: LevelDefinition = loadLevel(defaultLevelJson, 'levels/default.json');
+
+// Loads a level file from a URL (e.g. ?level=levels/my-map.json)
+export const fetchLevel = async (url: string): Promise<LevelDefinition> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not load level "${url}" (HTTP ${response.status})`);
+
+    let data: unknown;
+    try {
+        data = await response.json();
+    } catch {
+        throw new Error(`Level "${url}" is not valid JSON`);
+    }
+    return loadLevel(data, url);
+};
+
+export const getUrlLevel = (): string | null => {
+    if (typeof window === 'undefined') return null;
+    return new URLSearchParams(window.location.search).get('level');
+};
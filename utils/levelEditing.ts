@@ -0,0 +1,150 @@
+// --- Level Editing ---
+// Pure helpers used by the in-browser editor. Each returns a new LevelDefinition,
+// which the app feeds straight back into world and hunt generation.
+
+import { EditorSelection, GiftType, LevelBuilding, LevelDefinition, LevelPath, Point2 } from '../types';
+import { WORLD_RADIUS } from './worldGen';
+
+// Keep edits on the island (with a small margin for walls and rims)
+const clampToIsland = (x: number, z: number, margin: number): Point2 => {
+    const maxDist = Math.max(0, WORLD_RADIUS - margin);
+    const dist = Math.sqrt(x * x + z * z);
+    if (dist <= maxDist) return [Math.round(x), Math.round(z)];
+    const scale = maxDist / dist;
+    return [Math.round(x * scale), Math.round(z * scale)];
+};
+
+const samePoint = (p: Point2, x: number, z: number) => p[0] === x && p[1] === z;
+
+// Paths that end on a moved landmark (house, pond) follow it
+const dragAnchoredPaths = (paths: LevelPath[], fromX: number, fromZ: number, toX: number, toZ: number): LevelPath[] => {
+    return paths.map(p => ({
+        ...p,
+        from: samePoint(p.from, fromX, fromZ) ? [toX, toZ] : p.from,
+        to: samePoint(p.to, fromX, fromZ) ? [toX, toZ] : p.to,
+    }));
+};
+
+export const buildingExtent = (b: LevelBuilding) => Math.max(b.width, b.depth) / 2 + 1;
+
+export const moveSelection = (level: LevelDefinition, selection: EditorSelection, x: number, z: number, pathEnd: 'from' | 'to' = 'from'): LevelDefinition => {
+    if (!selection) return level;
+
+    switch (selection.kind) {
+        case 'building': {
+            const b = level.buildings[selection.index];
+            const [nx, nz] = clampToIsland(x, z, buildingExtent(b));
+            return {
+                ...level,
+                buildings: level.buildings.map((item, i) => i === selection.index ? { ...item, x: nx, z: nz } : item),
+                paths: dragAnchoredPaths(level.paths, b.x, b.z, nx, nz),
+            };
+        }
+        case 'pond': {
+            const [nx, nz] = clampToIsland(x, z, level.pond.radius);
+            return {
+                ...level,
+                pond: { ...level.pond, x: nx, z: nz },
+                paths: dragAnchoredPaths(level.paths, level.pond.x, level.pond.z, nx, nz),
+            };
+        }
+        case 'path': {
+            const point = clampToIsland(x, z, 2);
+            return {
+                ...level,
+                paths: level.paths.map((p, i) => i === selection.index ? { ...p, [pathEnd]: point } : p),
+            };
+        }
+        case 'gift': {
+            const [nx, nz] = clampToIsland(x, z, 2);
+            const fixed = (level.spawns.gifts.fixed ?? []).map((g, i) => i === selection.index ? { ...g, x: nx, z: nz } : g);
+            return { ...level, spawns: { ...level.spawns, gifts: { ...level.spawns.gifts, fixed } } };
+        }
+        case 'snowman': {
+            const point = clampToIsland(x, z, 2);
+            const spots = level.spawns.snowmen.spots.map((s, i) => i === selection.index ? point : s);
+            return { ...level, spawns: { ...level.spawns, snowmen: { ...level.spawns.snowmen, spots } } };
+        }
+    }
+};
+
+export const removeSelection = (level: LevelDefinition, selection: EditorSelection): LevelDefinition => {
+    if (!selection) return level;
+
+    switch (selection.kind) {
+        case 'building':
+            return { ...level, buildings: level.buildings.filter((_, i) => i !== selection.index) };
+        case 'path':
+            return { ...level, paths: level.paths.filter((_, i) => i !== selection.index) };
+        case 'gift': {
+            const fixed = (level.spawns.gifts.fixed ?? []).filter((_, i) => i !== selection.index);
+            return { ...level, spawns: { ...level.spawns, gifts: { ...level.spawns.gifts, fixed } } };
+        }
+        case 'snowman': {
+            const spots = level.spawns.snowmen.spots.filter((_, i) => i !== selection.index);
+            return { ...level, spawns: { ...level.spawns, snowmen: { ...level.spawns.snowmen, spots } } };
+        }
+        case 'pond':
+            return level; // Every level has exactly one pond
+    }
+};
+
+export const updateBuilding = (level: LevelDefinition, index: number, patch: Partial<LevelBuilding>): LevelDefinition => {
+    return { ...level, buildings: level.buildings.map((b, i) => i === index ? { ...b, ...patch } : b) };
+};
+
+export const addBuilding = (level: LevelDefinition, x: number, z: number): LevelDefinition => {
+    let n = level.buildings.length + 1;
+    while (level.buildings.some(b => b.id === `house-${n}`)) n++;
+    const [nx, nz] = clampToIsland(x, z, 10);
+    return {
+        ...level,
+        buildings: [...level.buildings, { id: `house-${n}`, x: nx, z: nz, width: 12, depth: 12, height: 10, rotation: 0 }],
+    };
+};
+
+export const addPath = (level: LevelDefinition, from: Point2, to: Point2): LevelDefinition => {
+    return { ...level, paths: [...level.paths, { from: clampToIsland(from[0], from[1], 2), to: clampToIsland(to[0], to[1], 2) }] };
+};
+
+export const updatePath = (level: LevelDefinition, index: number, patch: Partial<LevelPath>): LevelDefinition => {
+    return { ...level, paths: level.paths.map((p, i) => i === index ? { ...p, ...patch } : p) };
+};
+
+export const addGiftSpawn = (level: LevelDefinition, x: number, z: number, type?: GiftType): LevelDefinition => {
+    const [nx, nz] = clampToIsland(x, z, 2);
+    const fixed = [...(level.spawns.gifts.fixed ?? []), type ? { x: nx, z: nz, type } : { x: nx, z: nz }];
+    return { ...level, spawns: { ...level.spawns, gifts: { ...level.spawns.gifts, fixed } } };
+};
+
+export const setGiftSpawnType = (level: LevelDefinition, index: number, type: GiftType | undefined): LevelDefinition => {
+    const fixed = (level.spawns.gifts.fixed ?? []).map((g, i) => {
+        if (i !== index) return g;
+        return type ? { x: g.x, z: g.z, type } : { x: g.x, z: g.z };
+    });
+    return { ...level, spawns: { ...level.spawns, gifts: { ...level.spawns.gifts, fixed } } };
+};
+
+export const addSnowmanSpot = (level: LevelDefinition, x: number, z: number): LevelDefinition => {
+    const spots = [...level.spawns.snowmen.spots, clampToIsland(x, z, 2)];
+    return { ...level, spawns: { ...level.spawns, snowmen: { ...level.spawns.snowmen, spots } } };
+};
+
+// --- Export ---
+
+export const serializeLevel = (level: LevelDefinition): string => JSON.stringify(level, null, 2) + '\n';
+
+export const levelFileName = (level: LevelDefinition): string => {
+    const slug = level.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+    return `${slug || 'level'}.json`;
+};
+
+export const downloadLevel = (level: LevelDefinition) => {
+    const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = levelFileName(level);
+    link.click();
+    URL.revokeObjectURL(url);
+};
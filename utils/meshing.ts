@@ -0,0 +1,261 @@
+// --- Chunked Greedy Meshing ---
+// Splits the dense voxel grid into chunks and turns each chunk into a few merged-face
+// meshes. Only faces that can actually be seen are emitted, and neighbouring coplanar
+// faces of the same colour are merged into a single quad.
+
+import { Vector3Tuple } from '../types';
+import { MATERIALS, VoxelGrid } from './voxelGrid';
+import { VOXEL_SIZE } from './worldGen';
+
+export const CHUNK_SIZE = 32;
+
+// Render layers. Glow, ice and water each need their own material.
+export const MESH_LAYERS = ['solid', 'glow', 'ice', 'water'] as const;
+export type MeshLayer = typeof MESH_LAYERS[number];
+
+// Layer code per material id: 0 = not rendered, otherwise 1 + index into MESH_LAYERS
+const LAYER_BY_MATERIAL = MATERIALS.map(material => {
+    if (material === 'air') return 0;
+    if (material === 'light') return 2;
+    if (material === 'ice') return 3;
+    if (material === 'water') return 4;
+    return 1;
+});
+
+// Ice and water are see-through (and ice can shatter), so they never hide other faces
+const isOpaqueLayer = (layer: number) => layer === 1 || layer === 2;
+
+export interface ChunkCoord {
+    cx: number;
+    cy: number;
+    cz: number;
+}
+
+export interface ChunkMesh {
+    layer: MeshLayer;
+    positions: Float32Array;
+    normals: Float32Array;
+    paletteIndices: Uint8Array; // Per vertex, index into grid.palette
+    indices: Uint32Array;
+}
+
+export const chunkKey = ({ cx, cy, cz }: ChunkCoord) => `${cx},${cy},${cz}`;
+
+export const chunkOf = (grid: VoxelGrid, x: number, y: number, z: number): ChunkCoord => ({
+    cx: Math.floor((x - grid.minX) / CHUNK_SIZE),
+    cy: Math.floor((y - grid.minY) / CHUNK_SIZE),
+    cz: Math.floor((z - grid.minZ) / CHUNK_SIZE),
+});
+
+export const listChunks = (grid: VoxelGrid): ChunkCoord[] => {
+    const chunks: ChunkCoord[] = [];
+    for (let cx = 0; cx * CHUNK_SIZE < grid.sizeX; cx++) {
+        for (let cy = 0; cy * CHUNK_SIZE < grid.sizeY; cy++) {
+            for (let cz = 0; cz * CHUNK_SIZE < grid.sizeZ; cz++) {
+                chunks.push({ cx, cy, cz });
+            }
+        }
+    }
+    return chunks;
+};
+
+// Columns are contiguous, so an empty check is a quick scan of each column segment
+const isChunkEmpty = (grid: VoxelGrid, lo: number[], hi: number[]): boolean => {
+    for (let x = lo[0]; x < hi[0]; x++) {
+        for (let z = lo[2]; z < hi[2]; z++) {
+            const column = ((x - grid.minX) * grid.sizeZ + (z - grid.minZ)) * grid.sizeY;
+            for (let y = lo[1] - grid.minY; y < hi[1] - grid.minY; y++) {
+                if (grid.colors[column + y] !== 0) return false;
+            }
+        }
+    }
+    return true;
+};
+
+interface LayerBuffers {
+    positions: number[];
+    normals: number[];
+    paletteIndices: number[];
+    indices: number[];
+}
+
+export const meshChunk = (grid: VoxelGrid, { cx, cy, cz }: ChunkCoord): ChunkMesh[] => {
+    const gridMin = [grid.minX, grid.minY, grid.minZ];
+    const gridSize = [grid.sizeX, grid.sizeY, grid.sizeZ];
+    const chunk = [cx, cy, cz];
+    const lo = [0, 0, 0];
+    const hi = [0, 0, 0];
+    for (let axis = 0; axis < 3; axis++) {
+        lo[axis] = gridMin[axis] + chunk[axis] * CHUNK_SIZE;
+        hi[axis] = Math.min(lo[axis] + CHUNK_SIZE, gridMin[axis] + gridSize[axis]);
+    }
+
+    if (isChunkEmpty(grid, lo, hi)) return [];
+
+    const buffers: LayerBuffers[] = MESH_LAYERS.map(() => ({ positions: [], normals: [], paletteIndices: [], indices: [] }));
+
+    // Packed cell lookup: (layer << 8) | colour, or 0 when empty
+    const cell = (i: number): number => {
+        const color = grid.colors[i];
+        if (color === 0) return 0;
+        return (LAYER_BY_MATERIAL[grid.materials[i]] << 8) | color;
+    };
+
+    // Index step per axis for the x-major, then z, then y layout
+    const stride = [grid.sizeZ * grid.sizeY, 1, grid.sizeY];
+
+    // A face of `a` shows unless the neighbour `b` is opaque or part of the same layer
+    const faceVisible = (a: number, b: number) => {
+        if (a === 0) return false;
+        if (b === 0) return true;
+        const layerB = b >> 8;
+        return !isOpaqueLayer(layerB) && layerB !== (a >> 8);
+    };
+
+    const corner = [0, 0, 0];
+    const normal = [0, 0, 0];
+    const emitQuad = (d: number, u: number, v: number, plane: number, i: number, j: number, w: number, h: number, code: number) => {
+        const sign = code > 0 ? 1 : -1;
+        const packed = Math.abs(code);
+        const out = buffers[(packed >> 8) - 1];
+        const base = out.positions.length / 3;
+        const paletteIndex = (packed & 0xff) - 1;
+
+        normal[d] = sign;
+        normal[u] = 0;
+        normal[v] = 0;
+        corner[d] = (plane - 0.5) * VOXEL_SIZE;
+        for (let c = 0; c < 4; c++) {
+            corner[u] = (i + (c === 1 || c === 2 ? w : 0) - 0.5) * VOXEL_SIZE;
+            corner[v] = (j + (c >= 2 ? h : 0) - 0.5) * VOXEL_SIZE;
+            out.positions.push(corner[0], corner[1], corner[2]);
+            out.normals.push(normal[0], normal[1], normal[2]);
+            out.paletteIndices.push(paletteIndex);
+        }
+
+        if (sign > 0) out.indices.push(base, base + 1, base + 2, base, base + 2, base + 3);
+        else out.indices.push(base, base + 2, base + 1, base, base + 3, base + 2);
+    };
+
+    const origin = [0, 0, 0];
+    for (let d = 0; d < 3; d++) {
+        const u = (d + 1) % 3;
+        const v = (d + 2) % 3;
+        const width = hi[u] - lo[u];
+        const height = hi[v] - lo[v];
+        const mask = new Int32Array(width * height);
+        const gridLo = gridMin[d];
+        const gridHi = gridMin[d] + gridSize[d];
+
+        // Plane p sits between voxel p-1 and voxel p along axis d
+        for (let plane = lo[d]; plane <= hi[d]; plane++) {
+            const ownsBack = plane - 1 >= lo[d];
+            const ownsFront = plane < hi[d];
+            const backInGrid = plane - 1 >= gridLo;
+            const frontInGrid = plane < gridHi;
+
+            origin[d] = plane - gridMin[d];
+            origin[u] = lo[u] - gridMin[u];
+            origin[v] = lo[v] - gridMin[v];
+            const start = origin[0] * stride[0] + origin[1] * stride[1] + origin[2] * stride[2];
+
+            let n = 0;
+            for (let j = 0; j < height; j++) {
+                let front = start + j * stride[v];
+                for (let i = 0; i < width; i++, n++, front += stride[u]) {
+                    const back = backInGrid ? cell(front - stride[d]) : 0;
+                    const ahead = frontInGrid ? cell(front) : 0;
+
+                    if (ownsBack && faceVisible(back, ahead)) mask[n] = back;
+                    else if (ownsFront && faceVisible(ahead, back)) mask[n] = -ahead;
+                    else mask[n] = 0;
+                }
+            }
+
+            // Greedy merge: grow each face along u, then along v while the whole row matches
+            n = 0;
+            for (let j = 0; j < height; j++) {
+                for (let i = 0; i < width;) {
+                    const code = mask[n];
+                    if (code === 0) {
+                        i++;
+                        n++;
+                        continue;
+                    }
+
+                    let w = 1;
+                    while (i + w < width && mask[n + w] === code) w++;
+
+                    let h = 1;
+                    grow: while (j + h < height) {
+                        for (let k = 0; k < w; k++) {
+                            if (mask[n + k + h * width] !== code) break grow;
+                        }
+                        h++;
+                    }
+
+                    emitQuad(d, u, v, plane, lo[u] + i, lo[v] + j, w, h, code);
+
+                    for (let l = 0; l < h; l++) {
+                        for (let k = 0; k < w; k++) mask[n + k + l * width] = 0;
+                    }
+                    i += w;
+                    n += w;
+                }
+            }
+        }
+    }
+
+    const meshes: ChunkMesh[] = [];
+    buffers.forEach((b, layer) => {
+        if (b.indices.length === 0) return;
+        meshes.push({
+            layer: MESH_LAYERS[layer],
+            positions: new Float32Array(b.positions),
+            normals: new Float32Array(b.normals),
+            paletteIndices: new Uint8Array(b.paletteIndices),
+            indices: new Uint32Array(b.indices),
+        });
+    });
+    return meshes;
+};
+
+export interface WorldChunk {
+    key: string;
+    meshes: ChunkMesh[];
+}
+
+// Meshes the whole grid, skipping chunks with nothing to draw
+export const meshWorld = (grid: VoxelGrid, onProgress?: (fraction: number) => void): WorldChunk[] => {
+    const coords = listChunks(grid);
+    const chunks: WorldChunk[] = [];
+    coords.forEach((coord, i) => {
+        const meshes = meshChunk(grid, coord);
+        if (meshes.length > 0) chunks.push({ key: chunkKey(coord), meshes });
+        onProgress?.((i + 1) / coords.length);
+    });
+    return chunks;
+};
+
+// Re-meshes the chunks touched by changed voxels, including neighbours whose faces a
+// change on a chunk border may have exposed. Untouched chunks keep their identity.
+export const remeshVoxels = (grid: VoxelGrid, chunks: WorldChunk[], voxels: Vector3Tuple[]): WorldChunk[] => {
+    const affected = new Map<string, ChunkCoord>();
+    const offsets: Vector3Tuple[] = [[0, 0, 0], [1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+    const chunkCount = [grid.sizeX, grid.sizeY, grid.sizeZ].map(size => Math.ceil(size / CHUNK_SIZE));
+
+    voxels.forEach(([x, y, z]) => offsets.forEach(([ox, oy, oz]) => {
+        const coord = chunkOf(grid, x + ox, y + oy, z + oz);
+        if (coord.cx < 0 || coord.cy < 0 || coord.cz < 0) return;
+        if (coord.cx >= chunkCount[0] || coord.cy >= chunkCount[1] || coord.cz >= chunkCount[2]) return;
+        affected.set(chunkKey(coord), coord);
+    }));
+
+    const byKey = new Map(chunks.map(chunk => [chunk.key, chunk]));
+    affected.forEach((coord, key) => {
+        const meshes = meshChunk(grid, coord);
+        if (meshes.length > 0) byKey.set(key, { key, meshes });
+        else byKey.delete(key);
+    });
+    return Array.from(byKey.values());
+};
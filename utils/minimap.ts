@@ -0,0 +1,60 @@
+// --- Minimap ---
+// Top-down picture of the island, one pixel per voxel column, colored by whatever is on
+// top (snow, paths, roofs, the tree, the pond) and shaded by height.
+
+import { Terrain } from './terrain';
+import { getColor, getMaterial } from './voxelGrid';
+
+const NO_SURFACE = -32768;
+
+export interface MinimapImage {
+    width: number;
+    height: number;
+    minX: number; // Voxel X of the left column
+    minZ: number; // Voxel Z of the top row
+    pixels: Uint8ClampedArray; // RGBA, row-major; transparent off the island
+}
+
+export const renderMinimap = (terrain: Terrain): MinimapImage => {
+    const { grid } = terrain;
+    const width = grid.sizeX;
+    const height = grid.sizeZ;
+    const pixels = new Uint8ClampedArray(width * height * 4);
+
+    // Height range on the island, for shading
+    const surfaces = new Int16Array(width * height).fill(NO_SURFACE);
+    let lowest = Infinity;
+    let highest = -Infinity;
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+            const x = grid.minX + col;
+            const z = grid.minZ + row;
+            const surface = terrain.getSurface(x, z);
+            let y = surface ? surface.y : NO_SURFACE;
+            // Look through chimney smoke to the roof below
+            while (y > grid.minY && (getMaterial(grid, x, y, z) === 'smoke' || getMaterial(grid, x, y, z) === 'air')) y--;
+            surfaces[row * width + col] = y;
+            if (!surface) continue;
+            lowest = Math.min(lowest, y);
+            highest = Math.max(highest, y);
+        }
+    }
+
+    const range = Math.max(1, highest - lowest);
+    for (let row = 0; row < height; row++) {
+        for (let col = 0; col < width; col++) {
+            const y = surfaces[row * width + col];
+            const color = y === NO_SURFACE ? null : getColor(grid, grid.minX + col, y, grid.minZ + row);
+            if (color === null) continue;
+
+            const shade = 0.7 + 0.3 * ((y - lowest) / range);
+            const i = (row * width + col) * 4;
+            pixels[i] = ((color >> 16) & 0xff) * shade;
+            pixels[i + 1] = ((color >> 8) & 0xff) * shade;
+            pixels[i + 2] = (color & 0xff) * shade;
+            pixels[i + 3] = 255;
+        }
+    }
+
+    return { width, height, minX: grid.minX, minZ: grid.minZ, pixels };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { GameState, Gift, ObjectiveDefinition, QuestGoal, Snowman } from '../types';
+import { DEFAULT_LEVEL } from './level';
+import { generateWorld } from './worldGen';
+import { createTerrain } from './terrain';
+import { generateGifts, generateSnowmen } from './hunt';
+import { initialDoors } from './doors';
+import { levelObjectives, objectiveStatus } from './objectives';
+import { SNOWMAN_VARIANTS } from './snowmanVariants';
+
+const SEEDS = [1, 7, 42, 1234, 99999];
+
+const huntState = (gifts: Gift[], snowmen: Snowman[]): GameState => ({
+    started: true,
+    mode: 'explore',
+    seed: 0,
+    gifts,
+    snowmen,
+    snowballs: [],
+    ammo: 0,
+    foundCount: 0,
+    gameOver: false,
+    dug: [],
+    doors: initialDoors(DEFAULT_LEVEL),
+    keys: [],
+    ice: { cracks: 0, origin: null },
+    quests: {},
+    elapsed: 0,
+    hintsUsed: 0,
+});
+
+// Whether anything in the hunt (placed or still carried by a snowman) can ever meet the goal
+const goalReachable = (goal: QuestGoal, state: GameState): boolean => {
+    switch (goal.kind) {
+        case 'collect': {
+            const placed = state.gifts.filter(g => g.type !== 'key'
+                && (goal.giftType === undefined || g.type === goal.giftType)
+                && (goal.source === undefined || g.source === goal.source)
+                && (goal.house === undefined || (g.house !== undefined && DEFAULT_LEVEL.buildings[g.house].id === goal.house)));
+            const loot = goal.source === undefined || goal.source === 'snowman'
+                ? state.snowmen.flatMap(s => SNOWMAN_VARIANTS[s.variant].loot).filter(type => goal.giftType === undefined || type === goal.giftType)
+                : [];
+            return goal.house === undefined ? placed.length + loot.length >= goal.count : placed.length >= goal.count;
+        }
+        case 'breakSnowmen':
+            return state.snowmen.filter(s => goal.variant === undefined || s.variant === goal.variant).length >= goal.count;
+        case 'unlockDoors':
+            return state.doors.filter(d => d.locked).length >= goal.count;
+        case 'breakIce':
+            return true;
+    }
+};
+
+const reachable = (objective: ObjectiveDefinition, state: GameState): boolean => {
+    if (objective.kind === 'quest') return objective.steps.every(step => goalReachable(step.goal, state));
+    const status = objectiveStatus(objective, state);
+    return status.target > 0 && (objective.kind === 'location' || status.target === objective.count);
+};
+
+describe('default level objectives', () => {
+    const objectives = levelObjectives(DEFAULT_LEVEL);
+
+    it.each(SEEDS)('can all be reached on seed %i', seed => {
+        const world = generateWorld(seed, DEFAULT_LEVEL);
+        const terrain = createTerrain(world.grid);
+        const state = huntState(generateGifts(DEFAULT_LEVEL, seed, terrain), generateSnowmen(DEFAULT_LEVEL, seed, terrain));
+        objectives.forEach(objective => expect(reachable(objective, state), objective.id).toBe(true));
+    }, 60000);
+});
+
+describe('objectiveStatus', () => {
+    const gift = (id: number, extra: Partial<Gift>): Gift => ({
+        id, position: [0, 0, 0], color: '#fff', type: 'box', source: 'pond', collected: false, ...extra,
+    });
+    const pond: ObjectiveDefinition = { kind: 'location', id: 'pond', label: 'Pond', source: 'pond' };
+
+    it('is not done when nothing was placed at the location', () => {
+        expect(objectiveStatus(pond, huntState([], [])).done).toBe(false);
+    });
+
+    it('stops counting gifts that sank with the ice', () => {
+        const status = objectiveStatus(pond, huntState([gift(1, { collected: true }), gift(2, { sunk: true })], []));
+        expect(status).toMatchObject({ current: 1, target: 1, done: true });
+    });
+
+    it('caps a count at the gifts the hunt holds', () => {
+        const boxes: ObjectiveDefinition = { kind: 'count', id: 'boxes', label: 'Boxes', giftType: 'box', count: 5 };
+        const status = objectiveStatus(boxes, huntState([gift(1, { collected: true, source: 'buried' }), gift(2, { source: 'scatter' })], []));
+        expect(status).toMatchObject({ current: 1, target: 2, done: false });
+    });
+});
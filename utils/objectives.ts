@@ -0,0 +1,104 @@
+// --- Objectives ---
+// Progress towards a level's objectives. Location and count objectives are read straight off
+// the hunt's gifts; a quest keeps its step in the game state, since only what happens while a
+// step is active counts towards it.
+
+import { GameState, Gift, GiftSource, GiftType, LevelBuilding, LevelDefinition, ObjectiveDefinition, QuestGoal, QuestProgress } from '../types';
+import { isPresent } from './doors';
+import { isIceBroken } from './pond';
+import { SNOWMAN_VARIANTS } from './snowmanVariants';
+
+// For levels that don't set any. Snowman loot counts once it has been dropped.
+export const DEFAULT_OBJECTIVES: ObjectiveDefinition[] = [
+    { kind: 'location', id: 'everything', label: 'Find every present' },
+];
+
+export const levelObjectives = (level: LevelDefinition): ObjectiveDefinition[] => level.objectives ?? DEFAULT_OBJECTIVES;
+
+export interface ObjectiveStatus {
+    id: string;
+    label: string;
+    current: number;
+    target: number;
+    done: boolean;
+    step?: { index: number, total: number, label: string }; // Quests: the step being worked on
+}
+
+const NOT_STARTED: QuestProgress = { step: 0, count: 0 };
+
+const matches = (gift: Gift, giftType?: GiftType, source?: GiftSource) =>
+    isPresent(gift) && (giftType === undefined || gift.type === giftType) && (source === undefined || gift.source === source);
+
+// Gifts that went under with the ice stop counting, unless they have been fished back out
+const inPlay = (gift: Gift) => !gift.sunk || gift.collected;
+
+const goalTarget = (goal: QuestGoal) => goal.kind === 'breakIce' ? 1 : goal.count;
+
+// How much closer going from `prev` to `next` brings a quest goal
+const goalGain = (goal: QuestGoal, buildings: LevelBuilding[], prev: GameState, next: GameState): number => {
+    switch (goal.kind) {
+        case 'collect': {
+            const before = new Map(prev.gifts.map(g => [g.id, g.collected]));
+            const inHouse = (g: Gift) => goal.house === undefined || (g.house !== undefined && buildings[g.house]?.id === goal.house);
+            return next.gifts.filter(g => g.collected && before.get(g.id) === false && matches(g, goal.giftType, goal.source) && inHouse(g)).length;
+        }
+        case 'breakSnowmen': {
+            const before = new Map(prev.snowmen.map(s => [s.id, s.isDead]));
+            return next.snowmen.filter(s => s.isDead && before.get(s.id) === false && (goal.variant === undefined || s.variant === goal.variant)).length;
+        }
+        case 'unlockDoors':
+            return next.doors.filter((door, i) => !door.locked && prev.doors[i]?.locked).length;
+        case 'breakIce':
+            return isIceBroken(next.ice) && !isIceBroken(prev.ice) ? 1 : 0;
+    }
+};
+
+export const objectiveStatus = (objective: ObjectiveDefinition, state: GameState): ObjectiveStatus => {
+    const { id, label } = objective;
+    switch (objective.kind) {
+        case 'location': {
+            // Nothing ever placed there means the level can't be finished, not that it already is
+            const placed = state.gifts.filter(g => matches(g, undefined, objective.source));
+            const target = placed.filter(inPlay).length;
+            const current = placed.filter(g => g.collected).length;
+            return { id, label, current, target, done: placed.length > 0 && current >= target };
+        }
+        case 'count': {
+            // Capped at what the hunt holds (loot still on live snowmen included), since placements
+            // can fail and the pond can swallow some
+            const held = state.gifts.filter(g => inPlay(g) && matches(g, objective.giftType)).length
+                + state.snowmen.filter(s => !s.isDead).flatMap(s => SNOWMAN_VARIANTS[s.variant].loot)
+                    .filter(type => objective.giftType === undefined || type === objective.giftType).length;
+            const target = Math.min(objective.count, held);
+            const current = Math.min(target, state.gifts.filter(g => g.collected && matches(g, objective.giftType)).length);
+            return { id, label, current, target, done: target > 0 && current >= target };
+        }
+        case 'quest': {
+            const { step, count } = state.quests[id] ?? NOT_STARTED;
+            const total = objective.steps.length;
+            if (step >= total) return { id, label, current: total, target: total, done: true };
+            const active = objective.steps[step];
+            return { id, label, current: count, target: goalTarget(active.goal), done: false, step: { index: step, total, label: active.label } };
+        }
+    }
+};
+
+export const objectivesComplete = (objectives: ObjectiveDefinition[], state: GameState): boolean =>
+    objectives.every(o => objectiveStatus(o, state).done);
+
+// Moves each quest on by what changed between the two states (at most one step per change)
+export const advanceQuests = (objectives: ObjectiveDefinition[], buildings: LevelBuilding[], prev: GameState, next: GameState): GameState => {
+    let quests = next.quests;
+    objectives.forEach(objective => {
+        if (objective.kind !== 'quest') return;
+        const progress = quests[objective.id] ?? NOT_STARTED;
+        const active = objective.steps[progress.step];
+        if (!active) return;
+        const gain = goalGain(active.goal, buildings, prev, next);
+        if (gain === 0) return;
+        const count = progress.count + gain;
+        const advanced = count >= goalTarget(active.goal) ? { step: progress.step + 1, count: 0 } : { step: progress.step, count };
+        quests = { ...quests, [objective.id]: advanced };
+    });
+    return quests === next.quests ? next : { ...next, quests };
+};
@@ -0,0 +1,56 @@
+// --- Pond Ice & Fishing ---
+// The pond's ice takes a few hits before it shatters. Gifts left lying on it then sink into
+// the water below, where they can only be fished back out.
+
+import { Gift, IceState, LevelDefinition, Vector3Tuple } from '../types';
+import { VoxelGrid, clearVoxel, getMaterial } from './voxelGrid';
+import { POND_ICE_Y, POND_WATER_Y, VOXEL_SIZE } from './worldGen';
+
+type Pond = LevelDefinition['pond'];
+
+export const ICE_BREAK_CRACKS = 3; // Hits that shatter the pond
+export const FISH_REACH = 4; // Voxels from where the line lands to a gift it can hook
+export const FISH_BITE_SECONDS = 1.2; // Line in the water before it's reeled in
+
+const ICE_MARGIN = 2; // Ice stops this many voxels short of the pond's rim
+const SUNK_Y = (POND_WATER_Y - 0.2) * VOXEL_SIZE; // Resting in the water layer
+
+export const isIceBroken = (ice: IceState): boolean => ice.cracks >= ICE_BREAK_CRACKS;
+
+// True if a world position is over the sheet of ice (or the hole it left)
+export const isOverIce = (pond: Pond, [x, , z]: Vector3Tuple): boolean => {
+    return Math.hypot(x / VOXEL_SIZE - pond.x, z / VOXEL_SIZE - pond.z) < pond.radius - ICE_MARGIN;
+};
+
+// Drops every gift still lying on the ice into the water
+export const sinkGifts = (gifts: Gift[], pond: Pond): Gift[] => gifts.map(g => {
+    if (g.collected || g.buried || g.sunk || !isOverIce(pond, g.position)) return g;
+    return { ...g, sunk: true, position: [g.position[0], SUNK_Y, g.position[2]] };
+});
+
+// The sunken gift a line cast at `at` hooks, if any: the nearest one within reach
+export const hookedGift = (gifts: Gift[], at: Vector3Tuple): Gift | null => {
+    let best: Gift | null = null;
+    let bestDistance = FISH_REACH * VOXEL_SIZE;
+    gifts.forEach(gift => {
+        if (!gift.sunk || gift.collected) return;
+        const distance = Math.hypot(gift.position[0] - at[0], gift.position[2] - at[2]);
+        if (distance <= bestDistance) {
+            best = gift;
+            bestDistance = distance;
+        }
+    });
+    return best;
+};
+
+// Removes the ice from the grid once it has shattered; returns the voxels cleared
+export const meltIce = (grid: VoxelGrid, pond: Pond): Vector3Tuple[] => {
+    const cleared: Vector3Tuple[] = [];
+    const reach = Math.ceil(pond.radius);
+    for (let x = Math.floor(pond.x) - reach; x <= Math.ceil(pond.x) + reach; x++) {
+        for (let z = Math.floor(pond.z) - reach; z <= Math.ceil(pond.z) + reach; z++) {
+            if (getMaterial(grid, x, POND_ICE_Y, z) === 'ice' && clearVoxel(grid, x, POND_ICE_Y, z)) cleared.push([x, POND_ICE_Y, z]);
+        }
+    }
+    return cleared;
+};
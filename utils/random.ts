@@ -0,0 +1,61 @@
+// --- Seeded Random ---
+// Every procedural decision (world decoration, gift & snowman placement, ice cracks)
+// draws from an Rng created here, so one seed reproduces the whole hunt.
+
+export type Rng = () => number;
+
+// Mulberry32: tiny, fast and plenty random for level generation.
+export const createRng = (seed: number): Rng => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// FNV-1a string hash, used to turn text seeds and stream names into numbers
+export const hashString = (value: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+// Independent stream per consumer so e.g. changing the gift count doesn't reshuffle the world
+export const deriveSeed = (seed: number, stream: string): number => {
+    return (Math.imul(seed ^ hashString(stream), 0x9e3779b1) ^ hashString(stream)) >>> 0;
+};
+
+export const MAX_SEED = 999999;
+
+export const randomSeed = (): number => Math.floor(Math.random() * MAX_SEED) + 1;
+
+// Accepts "?seed=1234" as a number and any other text ("?seed=xmas") as a hashed value
+export const parseSeed = (value: string | null | undefined): number | null => {
+    if (!value) return null;
+    const trimmed = value.trim();
+    if (!trimmed) return null;
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) % (MAX_SEED + 1);
+    return hashString(trimmed) % (MAX_SEED + 1);
+};
+
+export const getUrlSeed = (): number | null => {
+    if (typeof window === 'undefined') return null;
+    return parseSeed(new URLSearchParams(window.location.search).get('seed'));
+};
+
+// Keep the address bar shareable without reloading the page
+export const setUrlSeed = (seed: number) => {
+    if (typeof window === 'undefined') return;
+    const url = new URL(window.location.href);
+    url.searchParams.set('seed', String(seed));
+    window.history.replaceState(null, '', url.toString());
+};
+
+// Picks one element using the given generator
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)];
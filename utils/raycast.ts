@@ -0,0 +1,210 @@
+// --- Voxel Raycasting ---
+// Grid-walking (DDA) raycaster over the generated voxel data, plus picking of the
+// gifts, snowmen and doors in front of the first voxel hit. Rays are in world units.
+
+import { Gift, Snowman, Vector3Tuple } from '../types';
+import { VoxelGrid, VoxelMaterial, getMaterial, isSolid } from './voxelGrid';
+import { DOOR_SIZE, DoorData, VOXEL_SIZE } from './worldGen';
+import { SNOWMAN_VARIANTS } from './snowmanVariants';
+
+export interface VoxelHit {
+    voxel: Vector3Tuple; // Voxel coordinate that was hit
+    normal: Vector3Tuple; // Face the ray entered through ([0, 0, 0] if it started inside)
+    material: VoxelMaterial;
+    point: Vector3Tuple; // World position where the ray entered the voxel
+    distance: number; // World units from the ray origin
+}
+
+export type PickedEntity =
+    | { kind: 'gift', gift: Gift }
+    | { kind: 'snowman', snowman: Snowman }
+    | { kind: 'door', door: number }; // Index into the world's doors
+
+export interface PickResult {
+    voxel: VoxelHit | null;
+    entity: PickedEntity | null; // Only set when the entity is in front of the voxel hit
+}
+
+export const PICK_DISTANCE = 200;
+
+// Pick volumes, roughly matching the rendered models (snowmen grow with their variant's scale)
+const GIFT_RADIUS = 0.6;
+const SNOWMAN_RADIUS = 0.7;
+const SNOWMAN_HEIGHT = 3.0;
+
+// Walks the grid cell by cell (Amanatides & Woo) until it finds a voxel `accept` allows
+export const raycastVoxels = (
+    grid: VoxelGrid,
+    origin: Vector3Tuple,
+    direction: Vector3Tuple,
+    maxDistance = PICK_DISTANCE,
+    accept: (material: VoxelMaterial) => boolean = () => true,
+): VoxelHit | null => {
+    const length = Math.hypot(direction[0], direction[1], direction[2]);
+    if (length === 0) return null;
+    const dir = direction.map(d => d / length);
+
+    // Voxel space: voxel centres sit on integers, so cell n spans [n - 0.5, n + 0.5)
+    const pos = origin.map(o => o / VOXEL_SIZE + 0.5);
+    const cell = pos.map(Math.floor) as Vector3Tuple;
+    const step = dir.map(Math.sign);
+    const tDelta = dir.map(d => d === 0 ? Infinity : Math.abs(1 / d));
+    const tMax = dir.map((d, axis) => {
+        if (d > 0) return (cell[axis] + 1 - pos[axis]) / d;
+        if (d < 0) return (pos[axis] - cell[axis]) / -d;
+        return Infinity;
+    });
+
+    const maxT = maxDistance / VOXEL_SIZE;
+    const normal: Vector3Tuple = [0, 0, 0];
+    let t = 0;
+
+    while (t <= maxT) {
+        const [x, y, z] = cell;
+        if (isSolid(grid, x, y, z)) {
+            const material = getMaterial(grid, x, y, z);
+            if (accept(material)) {
+                const distance = t * VOXEL_SIZE;
+                return {
+                    voxel: [x, y, z],
+                    normal: [...normal] as Vector3Tuple,
+                    material,
+                    point: [origin[0] + dir[0] * distance, origin[1] + dir[1] * distance, origin[2] + dir[2] * distance],
+                    distance,
+                };
+            }
+        }
+
+        // Step into the neighbouring cell across the nearest boundary
+        const axis = tMax[0] < tMax[1] ? (tMax[0] < tMax[2] ? 0 : 2) : (tMax[1] < tMax[2] ? 1 : 2);
+        t = tMax[axis];
+        tMax[axis] += tDelta[axis];
+        cell[axis] += step[axis];
+        normal[0] = normal[1] = normal[2] = 0;
+        normal[axis] = -step[axis];
+    }
+    return null;
+};
+
+// --- Entity Picking ---
+
+const raySphere = (origin: Vector3Tuple, dir: number[], center: Vector3Tuple, radius: number): number | null => {
+    const ox = origin[0] - center[0];
+    const oy = origin[1] - center[1];
+    const oz = origin[2] - center[2];
+    const b = ox * dir[0] + oy * dir[1] + oz * dir[2];
+    const c = ox * ox + oy * oy + oz * oz - radius * radius;
+    const disc = b * b - c;
+    if (disc < 0) return null;
+    const t = -b - Math.sqrt(disc);
+    if (t >= 0) return t;
+    return c <= 0 ? 0 : null; // Origin inside the sphere
+};
+
+const rayBox = (origin: Vector3Tuple, dir: number[], min: Vector3Tuple, max: Vector3Tuple): number | null => {
+    let tNear = 0;
+    let tFar = Infinity;
+    for (let axis = 0; axis < 3; axis++) {
+        if (dir[axis] === 0) {
+            if (origin[axis] < min[axis] || origin[axis] > max[axis]) return null;
+            continue;
+        }
+        const t1 = (min[axis] - origin[axis]) / dir[axis];
+        const t2 = (max[axis] - origin[axis]) / dir[axis];
+        tNear = Math.max(tNear, Math.min(t1, t2));
+        tFar = Math.min(tFar, Math.max(t1, t2));
+        if (tNear > tFar) return null;
+    }
+    return tNear;
+};
+
+// Nearest live gift or snowman along the ray, ignoring anything past `maxDistance`
+export const pickEntity = (
+    origin: Vector3Tuple,
+    direction: Vector3Tuple,
+    gifts: Gift[],
+    snowmen: Snowman[],
+    maxDistance = PICK_DISTANCE,
+): PickedEntity | null => {
+    const length = Math.hypot(direction[0], direction[1], direction[2]);
+    if (length === 0) return null;
+    const dir = direction.map(d => d / length);
+
+    let best: PickedEntity | null = null;
+    let bestDistance = maxDistance;
+
+    gifts.forEach(gift => {
+        if (gift.collected || gift.buried || gift.sunk) return; // Sunken gifts are fished, not clicked
+        const t = raySphere(origin, dir, gift.position, GIFT_RADIUS);
+        if (t !== null && t < bestDistance) {
+            best = { kind: 'gift', gift };
+            bestDistance = t;
+        }
+    });
+
+    snowmen.forEach(snowman => {
+        if (snowman.isDead) return;
+        const [x, y, z] = snowman.position;
+        const { scale } = SNOWMAN_VARIANTS[snowman.variant];
+        const r = SNOWMAN_RADIUS * scale;
+        const t = rayBox(origin, dir, [x - r, y, z - r], [x + r, y + SNOWMAN_HEIGHT * scale, z + r]);
+        if (t !== null && t < bestDistance) {
+            best = { kind: 'snowman', snowman };
+            bestDistance = t;
+        }
+    });
+
+    return best;
+};
+
+export const pickedId = (entity: PickedEntity): number =>
+    entity.kind === 'gift' ? entity.gift.id : entity.kind === 'snowman' ? entity.snowman.id : entity.door;
+
+// Nearest door panel along the ray, each swung `angles[i]` radians about its hinge
+export const pickDoor = (
+    origin: Vector3Tuple,
+    direction: Vector3Tuple,
+    doors: DoorData[],
+    angles: number[],
+    maxDistance = PICK_DISTANCE,
+): { door: number, distance: number } | null => {
+    const length = Math.hypot(direction[0], direction[1], direction[2]);
+    if (length === 0) return null;
+    const dir = direction.map(d => d / length);
+    const width = DOOR_SIZE.width * VOXEL_SIZE;
+    const height = DOOR_SIZE.height * VOXEL_SIZE;
+    const half = VOXEL_SIZE / 2;
+
+    let best: { door: number, distance: number } | null = null;
+    doors.forEach(({ position, rotation }, door) => {
+        // Into the panel's own frame: X along it from the hinge, Z through it
+        const theta = rotation + (angles[door] ?? 0);
+        const cos = Math.cos(theta);
+        const sin = Math.sin(theta);
+        const ox = origin[0] - position[0];
+        const oz = origin[2] - position[2];
+        const local: Vector3Tuple = [ox * cos - oz * sin, origin[1] - position[1], ox * sin + oz * cos];
+        const localDir = [dir[0] * cos - dir[2] * sin, dir[1], dir[0] * sin + dir[2] * cos];
+        const t = rayBox(local, localDir, [0, 0, -half], [width, height, half]);
+        if (t !== null && t < (best?.distance ?? maxDistance)) best = { door, distance: t };
+    });
+    return best;
+};
+
+// "What is under the cursor": the first voxel hit, and any entity standing in front of it.
+// Doors only count for clicks; thrown snowballs go through `pickEntity` and pass them by.
+export const pick = (
+    grid: VoxelGrid,
+    origin: Vector3Tuple,
+    direction: Vector3Tuple,
+    gifts: Gift[],
+    snowmen: Snowman[],
+    maxDistance = PICK_DISTANCE,
+    doors: DoorData[] = [],
+    doorAngles: number[] = [],
+): PickResult => {
+    const voxel = raycastVoxels(grid, origin, direction, maxDistance);
+    const door = pickDoor(origin, direction, doors, doorAngles, voxel ? voxel.distance : maxDistance);
+    const entity = pickEntity(origin, direction, gifts, snowmen, door?.distance ?? voxel?.distance ?? maxDistance);
+    return { voxel, entity: entity ?? (door && { kind: 'door', door: door.door }) };
+};
@@ -0,0 +1,137 @@
+// --- Hunt Recordings ---
+// A hunt is recorded as its starting state, every input fed to the hunt reducer and the
+// camera pose a few times a second. Since the world and the snowmen's randomness come from
+// the seed, replaying the inputs rebuilds the same hunt.
+
+import { GameState, LevelDefinition, Vector3Tuple } from '../types';
+import { HuntInput } from './huntReducer';
+
+export const RECORDING_VERSION = 4; // 2: pond ice state; 3: doors and keys; 4: objectives from the level
+export const CAMERA_SAMPLE_SECONDS = 0.1;
+
+export type Quaternion = [number, number, number, number];
+
+export interface CameraPose {
+    position: Vector3Tuple;
+    quaternion: Quaternion;
+}
+
+export interface RecordedInput {
+    t: number; // Ms since the recording started
+    input: HuntInput;
+}
+
+export interface CameraSample extends CameraPose {
+    t: number;
+}
+
+export interface Recording {
+    version: typeof RECORDING_VERSION;
+    seed: number;
+    level: LevelDefinition;
+    startedAt: number; // Unix ms
+    duration: number; // Ms
+    initial: GameState; // As it was when recording began (a resumed hunt may already have digs)
+    inputs: RecordedInput[];
+    camera: CameraSample[];
+}
+
+export interface Recorder {
+    start: (initial: GameState, level: LevelDefinition) => void;
+    input: (input: HuntInput) => void;
+    camera: (pose: CameraPose) => void;
+    stop: () => Recording | null; // The finished recording, if one was running
+    isRecording: () => boolean;
+}
+
+export const createRecorder = (now: () => number = () => performance.now()): Recorder => {
+    let recording: Recording | null = null;
+    let origin = 0;
+
+    return {
+        start: (initial, level) => {
+            origin = now();
+            recording = {
+                version: RECORDING_VERSION,
+                seed: initial.seed,
+                level,
+                startedAt: Date.now(),
+                duration: 0,
+                initial: { ...initial, snowballs: [] },
+                inputs: [],
+                camera: [],
+            };
+        },
+        input: input => {
+            recording?.inputs.push({ t: now() - origin, input });
+        },
+        camera: pose => {
+            recording?.camera.push({ t: now() - origin, ...pose });
+        },
+        stop: () => {
+            if (!recording) return null;
+            const finished = { ...recording, duration: now() - origin };
+            recording = null;
+            return finished;
+        },
+        isRecording: () => recording !== null,
+    };
+};
+
+// Number of inputs that have happened by time `t`
+export const inputsUntil = (recording: Recording, t: number): number => {
+    let lo = 0;
+    let hi = recording.inputs.length;
+    while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (recording.inputs[mid].t <= t) lo = mid + 1;
+        else hi = mid;
+    }
+    return lo;
+};
+
+// Camera pose at time `t`, blended between the two samples around it
+export const cameraPoseAt = (recording: Recording, t: number): CameraPose | null => {
+    const samples = recording.camera;
+    if (samples.length === 0) return null;
+    let lo = 0;
+    let hi = samples.length - 1;
+    if (t <= samples[0].t) return samples[0];
+    if (t >= samples[hi].t) return samples[hi];
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (samples[mid].t <= t) lo = mid;
+        else hi = mid;
+    }
+    const a = samples[lo];
+    const b = samples[hi];
+    const k = (t - a.t) / Math.max(1, b.t - a.t);
+
+    // Normalised lerp, taking the short way round
+    const sign = a.quaternion.reduce((dot, v, i) => dot + v * b.quaternion[i], 0) < 0 ? -1 : 1;
+    const q = a.quaternion.map((v, i) => v + (b.quaternion[i] * sign - v) * k);
+    const length = Math.hypot(...q) || 1;
+    return {
+        position: a.position.map((v, i) => v + (b.position[i] - v) * k) as Vector3Tuple,
+        quaternion: q.map(v => v / length) as Quaternion,
+    };
+};
+
+// Parses a downloaded recording, rejecting files from other versions
+export const readRecording = (text: string): Recording => {
+    const data = JSON.parse(text);
+    if (data?.version !== RECORDING_VERSION || !Array.isArray(data.inputs) || !Array.isArray(data.camera) || !data.initial) {
+        throw new Error('Not a replay file this version can play');
+    }
+    return data as Recording;
+};
+
+export const downloadRecording = (recording: Recording) => {
+    const blob = new Blob([JSON.stringify(recording) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay-${recording.seed}-${new Date(recording.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
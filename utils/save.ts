@@ -0,0 +1,154 @@
+// --- Saved Hunts ---
+// Hunt progress in localStorage, so a reload can pick up where it left off. Only what the
+// player changed is stored; gifts and snowmen are regenerated from the seed and patched.
+
+import { GameMode, GameState, Gift, IceState, LevelDefinition, QuestProgress, Snowman, Vector3Tuple } from '../types';
+import { loadLevel } from './level';
+import { isIceBroken, sinkGifts } from './pond';
+import { initialDoors, isPresent } from './doors';
+
+export const SAVE_VERSION = 5; // 2: snowman variants (drop ids and hit points changed) • 3: ice crack origin • 4: locked doors • 5: quests
+
+const SAVE_KEY = 'christmas-hunt:save';
+
+export interface SaveData {
+    version: typeof SAVE_VERSION;
+    level: LevelDefinition;
+    seed: number;
+    mode: GameMode;
+    collected: number[]; // Gift ids, including snowman drops
+    snowmenHp: number[]; // By snowman id
+    snowmenPositions: Vector3Tuple[]; // By snowman id; they wander off their spawn spots
+    openDoors: number[]; // Door indices
+    unlockedDoors: number[]; // Door indices that were locked in the level
+    keys: number[]; // Doors whose key the player is carrying
+    ice: IceState;
+    quests: Record<string, QuestProgress>; // By objective id
+    dug: Vector3Tuple[];
+    elapsed: number; // Seconds of play
+    hintsUsed: number;
+    savedAt: number; // Unix ms
+}
+
+// The parts of GameState a save brings back
+export type RestoredHunt = Pick<GameState, 'mode' | 'gifts' | 'snowmen' | 'foundCount' | 'dug' | 'doors' | 'keys' | 'ice' | 'quests' | 'elapsed' | 'hintsUsed'>;
+
+export const createSave = (level: LevelDefinition, state: GameState): SaveData => ({
+    version: SAVE_VERSION,
+    level,
+    seed: state.seed,
+    mode: state.mode,
+    collected: state.gifts.filter(g => g.collected).map(g => g.id),
+    snowmenHp: state.snowmen.map(s => s.hp),
+    snowmenPositions: state.snowmen.map(s => s.position),
+    openDoors: state.doors.flatMap((door, i) => door.open ? [i] : []),
+    unlockedDoors: state.doors.flatMap((door, i) => level.buildings[i]?.locked && !door.locked ? [i] : []),
+    keys: state.keys,
+    ice: state.ice,
+    quests: state.quests,
+    dug: state.dug,
+    elapsed: state.elapsed,
+    hintsUsed: state.hintsUsed,
+    savedAt: Date.now(),
+});
+
+// The parts of a save that only change with real progress, not with the clock or wandering snowmen
+export const saveProgress = ({ elapsed, snowmenPositions, savedAt, level, ...progress }: SaveData): string => JSON.stringify(progress);
+
+const isNumberArray = (value: unknown): value is number[] => Array.isArray(value) && value.every(v => typeof v === 'number');
+
+// Anything unreadable (old version, hand-edited, another app's key) counts as no save
+export const readSave = (): SaveData | null => {
+    if (typeof window === 'undefined') return null;
+    try {
+        const raw = window.localStorage.getItem(SAVE_KEY);
+        if (!raw) return null;
+        const data = JSON.parse(raw);
+        if (data?.version !== SAVE_VERSION) return null;
+        if (typeof data.seed !== 'number' || typeof data.ice?.cracks !== 'number' || typeof data.elapsed !== 'number') return null;
+        if (!isNumberArray(data.collected) || !isNumberArray(data.snowmenHp) || !isNumberArray(data.openDoors)) return null;
+        if (!isNumberArray(data.unlockedDoors) || !isNumberArray(data.keys)) return null;
+        if (typeof data.quests !== 'object' || data.quests === null) return null;
+        if (!Array.isArray(data.dug) || !data.dug.every((v: unknown) => isNumberArray(v) && v.length === 3)) return null;
+        return {
+            ...data,
+            mode: data.mode === 'challenge' ? 'challenge' : 'explore',
+            hintsUsed: typeof data.hintsUsed === 'number' ? data.hintsUsed : 0,
+            snowmenPositions: Array.isArray(data.snowmenPositions) ? data.snowmenPositions : [],
+            level: loadLevel(data.level, 'saved hunt'),
+        };
+    } catch {
+        return null;
+    }
+};
+
+export const writeSave = (save: SaveData) => {
+    try {
+        window.localStorage.setItem(SAVE_KEY, JSON.stringify(save));
+    } catch {
+        // Storage full or disabled (private mode); the hunt just won't survive a reload
+    }
+};
+
+export const clearSave = () => {
+    try {
+        window.localStorage.removeItem(SAVE_KEY);
+    } catch {
+        // Nothing to clear
+    }
+};
+
+// True if the save was made on this seed and map
+export const matchesSave = (save: SaveData, seed: number, level: LevelDefinition): boolean => {
+    return save.seed === seed && JSON.stringify(save.level) === JSON.stringify(level);
+};
+
+// Applies a save to a freshly generated hunt for the same seed and level
+export const restoreHunt = (
+    save: SaveData,
+    gifts: Gift[],
+    snowmen: Snowman[],
+    dropGifts: (snowman: Snowman) => Gift[],
+): RestoredHunt => {
+    const collected = new Set(save.collected);
+    const dug = new Set(save.dug.map(v => v.join(',')));
+
+    const restoredSnowmen = snowmen.map(s => {
+        const hp = save.snowmenHp[s.id] ?? s.hp;
+        const position = save.snowmenPositions[s.id];
+        const moved = isNumberArray(position) && position.length === 3;
+        return { ...s, hp, isDead: hp <= 0, position: moved ? position : s.position };
+    });
+
+    const uncovered = [...gifts, ...restoredSnowmen.filter(s => s.isDead).flatMap(dropGifts)].map(g => ({
+        ...g,
+        collected: collected.has(g.id),
+        buried: g.buried && dug.has(g.buried.join(',')) ? undefined : g.buried,
+    }));
+    const restoredGifts = isIceBroken(save.ice) ? sinkGifts(uncovered, save.level.pond) : uncovered;
+
+    const doors = initialDoors(save.level).map((door, i) => ({
+        open: save.openDoors.includes(i),
+        locked: door.locked && !save.unlockedDoors.includes(i),
+    }));
+
+    return {
+        mode: save.mode,
+        gifts: restoredGifts,
+        snowmen: restoredSnowmen,
+        foundCount: restoredGifts.filter(g => g.collected && isPresent(g)).length,
+        dug: save.dug,
+        doors,
+        keys: save.keys,
+        ice: save.ice,
+        quests: save.quests,
+        elapsed: save.elapsed,
+        hintsUsed: save.hintsUsed,
+    };
+};
+
+// 754 -> "12:34"
+export const formatElapsed = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+};
@@ -0,0 +1,55 @@
+// --- Challenge Scoring ---
+// Points for the timed challenge: a base value per gift type, bonuses for the gifts
+// that take more work to reach, and a time bonus for clearing the hunt early.
+
+import { Gift, GiftType } from '../types';
+
+export const CHALLENGE_SECONDS = 5 * 60;
+
+export const GIFT_POINTS: Record<GiftType, number> = {
+    box: 10,
+    cane: 10,
+    ornament: 15,
+    stocking: 20,
+    gingerbread: 25,
+    star: 30,
+    key: 0, // Not a present, just a way in
+};
+
+export const SNOWMAN_DROP_BONUS = 50; // Per gift; had to break a snowman to get it
+export const HOUSE_STOCKING_BONUS = 25; // Had to go inside to find it
+export const TIME_BONUS_PER_SECOND = 2; // Only when every objective was done
+export const HINT_PENALTY = 40; // Per radar reveal used
+
+export interface ScoreBreakdown {
+    byType: Record<GiftType, { count: number, points: number }>;
+    snowmanBonus: number;
+    houseBonus: number;
+    timeBonus: number;
+    hintPenalty: number;
+    total: number;
+}
+
+// `completed` is true when every objective was done before the clock ran out
+export const scoreHunt = (gifts: Gift[], elapsed: number, completed: boolean, hintsUsed = 0): ScoreBreakdown => {
+    const byType = Object.fromEntries(
+        (Object.keys(GIFT_POINTS) as GiftType[]).map(type => [type, { count: 0, points: 0 }]),
+    ) as ScoreBreakdown['byType'];
+    let snowmanBonus = 0;
+    let houseBonus = 0;
+
+    gifts.forEach(gift => {
+        if (!gift.collected) return;
+        byType[gift.type].count++;
+        byType[gift.type].points += GIFT_POINTS[gift.type];
+        if (gift.source === 'snowman') snowmanBonus += SNOWMAN_DROP_BONUS;
+        if (gift.source === 'house' && gift.type === 'stocking') houseBonus += HOUSE_STOCKING_BONUS;
+    });
+
+    const timeBonus = completed ? Math.max(0, CHALLENGE_SECONDS - elapsed) * TIME_BONUS_PER_SECOND : 0;
+    const hintPenalty = hintsUsed * HINT_PENALTY;
+    const base = Object.values(byType).reduce((sum, t) => sum + t.points, 0);
+    const total = Math.max(0, base + snowmanBonus + houseBonus + timeBonus - hintPenalty);
+
+    return { byType, snowmanBonus, houseBonus, timeBonus, hintPenalty, total };
+};
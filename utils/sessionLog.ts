@@ -0,0 +1,44 @@
+// --- Session Log ---
+// Everything the event bus saw during one hunt, downloadable as JSON for looking at how
+// players actually move through the island.
+
+import { GameMode } from '../types';
+import { EventBus, GameEvent } from './events';
+
+export const SESSION_LOG_VERSION = 1;
+
+export interface SessionLog {
+    version: typeof SESSION_LOG_VERSION;
+    seed: number;
+    level: string; // Level name
+    mode: GameMode;
+    startedAt: number; // Unix ms
+    events: GameEvent[];
+}
+
+export interface SessionRecorder {
+    current: () => SessionLog | null; // Null until a hunt starts
+    stop: () => void;
+}
+
+// A new log begins with every `huntStarted`
+export const recordSessions = (bus: EventBus): SessionRecorder => {
+    let log: SessionLog | null = null;
+    const stop = bus.onAny(event => {
+        if (event.type === 'huntStarted') {
+            log = { version: SESSION_LOG_VERSION, seed: event.seed, level: event.level, mode: event.mode, startedAt: event.at, events: [] };
+        }
+        log?.events.push(event);
+    });
+    return { current: () => log, stop };
+};
+
+export const downloadSessionLog = (log: SessionLog) => {
+    const blob = new Blob([JSON.stringify(log, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `hunt-${log.seed}-${new Date(log.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,84 @@
+// --- Sound Effects ---
+// Short synthesized blips for game events (no audio files to load). The audio context is
+// created on the first sound, which always follows a click, so browsers allow it.
+
+import { EventBus, GameEvent } from './events';
+
+type Tone = { frequency: number, duration: number, type: OscillatorType, slide?: number, delay?: number };
+
+let context: AudioContext | null = null;
+
+const play = (tones: Tone[], volume = 0.15) => {
+    if (typeof window === 'undefined' || !window.AudioContext) return;
+    context ??= new AudioContext();
+    const start = context.currentTime;
+    tones.forEach(({ frequency, duration, type, slide, delay = 0 }) => {
+        const ctx = context!;
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.type = type;
+        osc.frequency.setValueAtTime(frequency, start + delay);
+        if (slide) osc.frequency.exponentialRampToValueAtTime(slide, start + delay + duration);
+        gain.gain.setValueAtTime(volume, start + delay);
+        gain.gain.exponentialRampToValueAtTime(0.001, start + delay + duration);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(start + delay);
+        osc.stop(start + delay + duration);
+    });
+};
+
+const soundFor = (event: GameEvent): Tone[] | null => {
+    switch (event.type) {
+        case 'giftCollected':
+            if (event.fished) return [
+                { frequency: 200, duration: 0.15, type: 'sine', slide: 600 },
+                { frequency: 1320, duration: 0.18, type: 'triangle', delay: 0.15 },
+            ];
+            return [
+                { frequency: 880, duration: 0.12, type: 'triangle' },
+                { frequency: 1320, duration: 0.18, type: 'triangle', delay: 0.08 },
+            ];
+        case 'snowmanHit':
+            return [{ frequency: 220, duration: 0.12, type: 'square', slide: 110 }];
+        case 'snowmanKilled':
+            return [{ frequency: 300, duration: 0.4, type: 'sawtooth', slide: 60 }];
+        case 'doorUnlocked':
+            return [
+                { frequency: 1500, duration: 0.05, type: 'square' },
+                { frequency: 900, duration: 0.08, type: 'square', delay: 0.07 },
+            ];
+        case 'doorRattled':
+            return [0, 1, 2].map(i => ({ frequency: 160, duration: 0.05, type: 'square' as const, delay: i * 0.07 }));
+        case 'doorToggled':
+            return [{ frequency: event.open ? 180 : 140, duration: 0.2, type: 'triangle', slide: event.open ? 240 : 90 }];
+        case 'iceCracked':
+            return event.broken
+                ? [{ frequency: 1800, duration: 0.5, type: 'sawtooth', slide: 200 }]
+                : [{ frequency: 1200, duration: 0.08, type: 'square', slide: 600 }];
+        case 'questAdvanced':
+            return [{ frequency: 784, duration: 0.15, type: 'triangle' }, { frequency: 988, duration: 0.2, type: 'triangle', delay: 0.1 }];
+        case 'objectiveCompleted':
+            return [659, 784, 1047].map((frequency, i) => ({ frequency, duration: 0.2, type: 'sine' as const, delay: i * 0.1 }));
+        case 'achievementUnlocked':
+            return [784, 988, 1175, 1568].map((frequency, i) => ({ frequency, duration: 0.15, type: 'square' as const, delay: i * 0.07 }));
+        case 'hintUsed':
+            return [{ frequency: 660, duration: 0.3, type: 'sine', slide: 990 }];
+        case 'playerFrosted':
+            return [{ frequency: 400, duration: 0.25, type: 'sine', slide: 150 }];
+        case 'huntWon':
+            return [523, 659, 784, 1047].map((frequency, i) => ({ frequency, duration: 0.25, type: 'triangle' as const, delay: i * 0.12 }));
+        case 'timeUp':
+            return [{ frequency: 440, duration: 0.6, type: 'square', slide: 110 }];
+        default:
+            return null;
+    }
+};
+
+// Plays a sound for every event while `enabled()` is true; returns an unsubscribe function
+export const playEventSounds = (bus: EventBus, enabled: () => boolean): (() => void) => {
+    return bus.onAny(event => {
+        if (!enabled()) return;
+        const tones = soundFor(event);
+        if (tones) play(tones);
+    });
+};
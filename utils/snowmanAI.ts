@@ -0,0 +1,135 @@
+// --- Snowman Behaviour ---
+// Small state machine stepped a few times a second: snowmen idle, wander over the
+// terrain, flee when hit, and now and then wind up and lob a snowball at the player.
+
+import { Snowball, Snowman, SnowmanMood, Vector3Tuple } from '../types';
+import { Rng } from './random';
+import { Terrain, worldToVoxel } from './terrain';
+import { VOXEL_SIZE } from './worldGen';
+import { SNOWMAN_VARIANTS } from './snowmanVariants';
+
+export const AI_TICK = 0.2; // Seconds between steps
+
+const WANDER_SPEED = 1.0; // World units per second
+const FLEE_SPEED = 3.5;
+const WANDER_RANGE = 6; // How far a wander goal may be
+const FLEE_SECONDS = 3;
+const WINDUP_SECONDS = 0.8;
+const THROW_RANGE = 18; // Player must be this close to be targeted
+const THROW_COOLDOWN: [number, number] = [6, 12];
+const MAX_CLIMB = 2; // Voxels a snowman can step up or down per move
+const HEADROOM = 10; // Voxels of clear space a snowman needs (keeps them out of houses and trees)
+
+export type SnowballThrow = Omit<Snowball, 'id'>;
+
+export interface SnowmenStep {
+    snowmen: Snowman[];
+    throws: SnowballThrow[];
+}
+
+const between = (rng: Rng, [min, max]: [number, number]) => min + rng() * (max - min);
+
+const setMood = (snowman: Snowman, mood: SnowmanMood, moodTime: number): Snowman => ({ ...snowman, mood, moodTime });
+
+// Ground height (world Y) a snowman could stand at, or null if the spot is off-limits
+const standableY = (terrain: Terrain, x: number, z: number, fromY: number): number | null => {
+    const vx = worldToVoxel(x);
+    const vz = worldToVoxel(z);
+    const ground = terrain.getGround(vx, vz);
+    // Water isn't ground, so a broken pond shows up as water on the surface above its bed
+    if (!ground || ground.material === 'ice' || terrain.getSurface(vx, vz)?.material === 'water') return null;
+    if (Math.abs(ground.y - worldToVoxel(fromY)) > MAX_CLIMB) return null;
+    if (!terrain.hasClearance(vx, ground.y, vz, HEADROOM)) return null;
+    return ground.y * VOXEL_SIZE;
+};
+
+// Walks towards `goal`; returns null if the next step is blocked
+const walk = (snowman: Snowman, terrain: Terrain, goal: [number, number], speed: number, dt: number): Snowman | null => {
+    const [x, y, z] = snowman.position;
+    const dx = goal[0] - x;
+    const dz = goal[1] - z;
+    const distance = Math.hypot(dx, dz);
+    if (distance < 0.05) return snowman;
+
+    const step = Math.min(distance, speed * dt);
+    const nx = x + (dx / distance) * step;
+    const nz = z + (dz / distance) * step;
+    const ny = standableY(terrain, nx, nz, y);
+    if (ny === null) return null;
+
+    return { ...snowman, position: [nx, ny, nz], rotation: Math.atan2(dx, dz) };
+};
+
+const faceTowards = (snowman: Snowman, target: Vector3Tuple): Snowman => ({
+    ...snowman,
+    rotation: Math.atan2(target[0] - snowman.position[0], target[2] - snowman.position[2]),
+});
+
+const stepOne = (snowman: Snowman, terrain: Terrain, dt: number, player: Vector3Tuple, rng: Rng, throws: SnowballThrow[]): Snowman => {
+    if (snowman.isDead) return snowman;
+
+    let next: Snowman = { ...snowman, moodTime: snowman.moodTime - dt, cooldown: Math.max(0, snowman.cooldown - dt) };
+    const toPlayer = Math.hypot(player[0] - next.position[0], player[2] - next.position[2]);
+
+    switch (next.mood) {
+        case 'flee': {
+            const away = Math.max(0.001, toPlayer);
+            const goal: [number, number] = [
+                next.position[0] + ((next.position[0] - player[0]) / away) * 3,
+                next.position[2] + ((next.position[2] - player[2]) / away) * 3,
+            ];
+            // Cornered: turn aside instead of running into the wall
+            const moved = walk(next, terrain, goal, FLEE_SPEED, dt)
+                ?? walk(next, terrain, [next.position[0] + (goal[1] - next.position[2]), next.position[2] - (goal[0] - next.position[0])], FLEE_SPEED, dt);
+            if (moved) next = moved;
+            if (next.moodTime <= 0) next = setMood(next, 'idle', between(rng, [1, 3]));
+            return next;
+        }
+
+        case 'windup': {
+            next = faceTowards(next, player);
+            if (next.moodTime > 0) return next;
+            const hand: Vector3Tuple = [next.position[0], next.position[1] + 1.8 * SNOWMAN_VARIANTS[next.variant].scale, next.position[2]];
+            throws.push({ thrower: next.id, from: hand, to: [...player] });
+            return { ...setMood(next, 'idle', between(rng, [1, 2])), cooldown: between(rng, THROW_COOLDOWN) };
+        }
+
+        case 'wander': {
+            const moved = next.goal && walk(next, terrain, next.goal, WANDER_SPEED, dt);
+            if (!moved) return { ...setMood(next, 'idle', between(rng, [0.5, 2])), goal: undefined };
+            next = moved;
+            const arrived = next.goal && Math.hypot(next.goal[0] - next.position[0], next.goal[1] - next.position[2]) < 0.1;
+            if (arrived || next.moodTime <= 0) return { ...setMood(next, 'idle', between(rng, [1, 4])), goal: undefined };
+            break;
+        }
+
+        case 'idle':
+        default: {
+            if (next.moodTime > 0) break;
+            const angle = rng() * Math.PI * 2;
+            const range = 1 + rng() * WANDER_RANGE;
+            const goal: [number, number] = [next.position[0] + Math.cos(angle) * range, next.position[2] + Math.sin(angle) * range];
+            next = { ...setMood(next, 'wander', range / WANDER_SPEED + 2), goal };
+            break;
+        }
+    }
+
+    // Idle and wandering snowmen keep an eye out for someone to pelt
+    if (next.cooldown <= 0 && toPlayer < THROW_RANGE && rng() < dt * 0.5) {
+        next = { ...faceTowards(setMood(next, 'windup', WINDUP_SECONDS), player), goal: undefined };
+    }
+    return next;
+};
+
+// Advances every snowman by `dt` seconds. `player` is where snowballs are aimed (the camera).
+export const stepSnowmen = (snowmen: Snowman[], terrain: Terrain, dt: number, player: Vector3Tuple, rng: Rng): SnowmenStep => {
+    const throws: SnowballThrow[] = [];
+    const next = snowmen.map(s => stepOne(s, terrain, dt, player, rng, throws));
+    return { snowmen: next, throws };
+};
+
+// A hit costs a life and sends the snowman running
+export const hitSnowman = (snowman: Snowman): Snowman => {
+    const hp = snowman.hp - 1;
+    return { ...snowman, hp, isDead: hp <= 0, mood: 'flee', moodTime: FLEE_SECONDS, goal: undefined };
+};
@@ -0,0 +1,71 @@
+// --- Snowman Variants ---
+// The kinds of snowman a hunt can spawn: how much punishment each takes, how big it is,
+// what it wears and which gifts it leaves behind.
+
+import { GiftType, SnowmanVariant } from '../types';
+import { Rng } from './random';
+
+export interface SnowmanLook {
+    snow: string; // Body colour
+    scarf: string;
+    hat: 'top' | 'crown' | 'none';
+    shiny: boolean; // Metallic body
+}
+
+export interface SnowmanVariantInfo {
+    label: string;
+    maxHp: number;
+    scale: number; // Size relative to the classic snowman (also scales its hit box)
+    weight: number; // Relative spawn chance
+    loot: GiftType[]; // Dropped all at once when it breaks
+    look: SnowmanLook;
+}
+
+export const SNOWMAN_VARIANTS: Record<SnowmanVariant, SnowmanVariantInfo> = {
+    tiny: {
+        label: 'Tiny',
+        maxHp: 1,
+        scale: 0.6,
+        weight: 3,
+        loot: ['cane'],
+        look: { snow: '#ffffff', scarf: '#2e86de', hat: 'none', shiny: false },
+    },
+    classic: {
+        label: 'Classic',
+        maxHp: 3,
+        scale: 1,
+        weight: 5,
+        loot: ['gingerbread'],
+        look: { snow: '#ffffff', scarf: '#d63031', hat: 'top', shiny: false },
+    },
+    giant: {
+        label: 'Giant',
+        maxHp: 8,
+        scale: 1.8,
+        weight: 1,
+        loot: ['gingerbread', 'stocking', 'star'],
+        look: { snow: '#eef6ff', scarf: '#6c5ce7', hat: 'top', shiny: false },
+    },
+    golden: {
+        label: 'Golden',
+        maxHp: 5,
+        scale: 1.1,
+        weight: 0.5,
+        loot: ['star', 'star'],
+        look: { snow: '#ffd34d', scarf: '#ffffff', hat: 'crown', shiny: true },
+    },
+};
+
+// Longest loot table; sizes the id block each snowman's drops are numbered from
+export const MAX_LOOT = Math.max(...Object.values(SNOWMAN_VARIANTS).map(v => v.loot.length));
+
+export const pickVariant = (rng: Rng): SnowmanVariant => {
+    const entries = Object.entries(SNOWMAN_VARIANTS) as [SnowmanVariant, SnowmanVariantInfo][];
+    const total = entries.reduce((sum, [, v]) => sum + v.weight, 0);
+    let roll = rng() * total;
+    for (const [variant, info] of entries) {
+        roll -= info.weight;
+        if (roll < 0) return variant;
+    }
+    return 'classic';
+};
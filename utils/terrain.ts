@@ -0,0 +1,102 @@
+// --- Terrain Queries ---
+// Single answer to "where is the ground?" built from the generated voxel grid, so
+// gifts, snowmen and anything else placed in the world sit on what is actually rendered.
+
+import { VOXEL_SIZE } from './worldGen';
+import { VoxelGrid, VoxelMaterial, MATERIALS, getMaterial, inGrid, isSolid, voxelIndex } from './voxelGrid';
+
+export interface SurfaceInfo {
+    y: number; // Voxel Y of the top solid voxel
+    material: VoxelMaterial;
+}
+
+// Materials something can stand on. Anything else (walls, roofs, foliage, lamps) is a structure.
+const GROUND_MATERIALS: ReadonlySet<VoxelMaterial> = new Set<VoxelMaterial>(['snow', 'path', 'ice', 'dirt', 'stone', 'floor']);
+
+export interface Terrain {
+    grid: VoxelGrid;
+    // Highest solid voxel in the column (roofs, tree tops included)
+    getSurface: (vx: number, vz: number) => SurfaceInfo | null;
+    // Highest walkable voxel in the column (snow, path, ice, house floor...), ignoring structures above it
+    getGround: (vx: number, vz: number) => SurfaceInfo | null;
+    isOccupied: (vx: number, vy: number, vz: number) => boolean;
+    // True if `height` voxels above vy are all empty
+    hasClearance: (vx: number, vy: number, vz: number, height: number) => boolean;
+    getSurfaceAtWorld: (x: number, z: number) => SurfaceInfo | null;
+    getGroundAtWorld: (x: number, z: number) => SurfaceInfo | null;
+    isOccupiedAtWorld: (x: number, y: number, z: number) => boolean;
+    // Re-scan a column after its voxels changed
+    refreshColumn: (vx: number, vz: number) => void;
+}
+
+export const worldToVoxel = (value: number): number => Math.round(value / VOXEL_SIZE);
+export const voxelToWorld = (value: number): number => value * VOXEL_SIZE;
+
+// Empty columns are stored as this sentinel
+const NO_VOXEL = -32768;
+
+export const createTerrain = (grid: VoxelGrid): Terrain => {
+    const columns = grid.sizeX * grid.sizeZ;
+    const surfaceY = new Int16Array(columns).fill(NO_VOXEL);
+    const groundY = new Int16Array(columns).fill(NO_VOXEL);
+
+    const columnIndex = (vx: number, vz: number) => (vx - grid.minX) * grid.sizeZ + (vz - grid.minZ);
+    const inColumns = (vx: number, vz: number) => inGrid(grid, vx, grid.minY, vz);
+
+    const scanColumn = (vx: number, vz: number) => {
+        const ci = columnIndex(vx, vz);
+        surfaceY[ci] = NO_VOXEL;
+        groundY[ci] = NO_VOXEL;
+
+        const maxY = grid.minY + grid.sizeY - 1;
+        for (let y = maxY; y >= grid.minY; y--) {
+            const i = voxelIndex(grid, vx, y, vz);
+            if (grid.colors[i] === 0) continue;
+            if (surfaceY[ci] === NO_VOXEL) surfaceY[ci] = y;
+            if (GROUND_MATERIALS.has(MATERIALS[grid.materials[i]])) {
+                groundY[ci] = y;
+                return;
+            }
+        }
+    };
+
+    for (let vx = grid.minX; vx < grid.minX + grid.sizeX; vx++) {
+        for (let vz = grid.minZ; vz < grid.minZ + grid.sizeZ; vz++) {
+            scanColumn(vx, vz);
+        }
+    }
+
+    const read = (heights: Int16Array, vx: number, vz: number): SurfaceInfo | null => {
+        const rx = Math.round(vx);
+        const rz = Math.round(vz);
+        if (!inColumns(rx, rz)) return null;
+        const y = heights[columnIndex(rx, rz)];
+        if (y === NO_VOXEL) return null;
+        return { y, material: getMaterial(grid, rx, y, rz) };
+    };
+
+    const getSurface = (vx: number, vz: number) => read(surfaceY, vx, vz);
+    const getGround = (vx: number, vz: number) => read(groundY, vx, vz);
+    const isOccupied = (vx: number, vy: number, vz: number) => isSolid(grid, Math.round(vx), Math.round(vy), Math.round(vz));
+
+    const hasClearance = (vx: number, vy: number, vz: number, height: number) => {
+        for (let h = 1; h <= height; h++) {
+            if (isOccupied(vx, vy + h, vz)) return false;
+        }
+        return true;
+    };
+
+    return {
+        grid,
+        getSurface,
+        getGround,
+        isOccupied,
+        hasClearance,
+        getSurfaceAtWorld: (x, z) => getSurface(worldToVoxel(x), worldToVoxel(z)),
+        getGroundAtWorld: (x, z) => getGround(worldToVoxel(x), worldToVoxel(z)),
+        isOccupiedAtWorld: (x, y, z) => isOccupied(worldToVoxel(x), worldToVoxel(y), worldToVoxel(z)),
+        refreshColumn: (vx, vz) => {
+            if (inColumns(vx, vz)) scanColumn(vx, vz);
+        },
+    };
+};
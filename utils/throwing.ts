@@ -0,0 +1,66 @@
+// --- Snowball Throwing ---
+// Ballistics for the player's snowballs: launched along the aim ray, pulled down by
+// gravity, and stopped by the first voxel, snowman or gift their path crosses.
+
+import { Gift, Snowman, Vector3Tuple } from '../types';
+import { PickedEntity, VoxelHit, pickEntity, raycastVoxels } from './raycast';
+import { VoxelGrid, getMaterial, isSolid } from './voxelGrid';
+import { VOXEL_SIZE } from './worldGen';
+
+export const SNOWBALL_CAPACITY = 5; // Snowballs the player can carry
+export const SCOOP_REACH = 12; // World units from the camera a snow surface can be scooped at
+
+const THROW_SPEED = 24; // World units per second
+const GRAVITY = 12;
+const MAX_FLIGHT = 4; // Seconds before a miss is dropped
+
+export interface Projectile {
+    position: Vector3Tuple;
+    velocity: Vector3Tuple;
+    age: number; // Seconds in flight
+}
+
+export type Impact =
+    | { kind: 'voxel', hit: VoxelHit }
+    | { kind: 'entity', entity: PickedEntity };
+
+export interface ProjectileStep {
+    projectile: Projectile;
+    impact: Impact | null;
+    expired: boolean; // Flew too long (or off the island) without hitting anything
+}
+
+// Smoke is only drawn; a snowball passes straight through it
+const stopsSnowball = (material: string) => material !== 'smoke';
+
+export const launchProjectile = (origin: Vector3Tuple, direction: Vector3Tuple): Projectile => {
+    const length = Math.hypot(direction[0], direction[1], direction[2]) || 1;
+    const dir = direction.map(d => d / length);
+    return {
+        // Start a little in front of the camera so it doesn't clip the near plane
+        position: [origin[0] + dir[0] * 0.5, origin[1] + dir[1] * 0.5, origin[2] + dir[2] * 0.5],
+        velocity: [dir[0] * THROW_SPEED, dir[1] * THROW_SPEED, dir[2] * THROW_SPEED],
+        age: 0,
+    };
+};
+
+// Advances one projectile by `dt`, checking the segment it travelled for anything in the way
+export const stepProjectile = (grid: VoxelGrid, projectile: Projectile, dt: number, gifts: Gift[], snowmen: Snowman[]): ProjectileStep => {
+    const { position: from, velocity } = projectile;
+    const nextVelocity: Vector3Tuple = [velocity[0], velocity[1] - GRAVITY * dt, velocity[2]];
+    const to: Vector3Tuple = [from[0] + nextVelocity[0] * dt, from[1] + nextVelocity[1] * dt, from[2] + nextVelocity[2] * dt];
+    const segment: Vector3Tuple = [to[0] - from[0], to[1] - from[1], to[2] - from[2]];
+    const length = Math.hypot(segment[0], segment[1], segment[2]);
+    const next: Projectile = { position: to, velocity: nextVelocity, age: projectile.age + dt };
+
+    const voxel = raycastVoxels(grid, from, segment, length, stopsSnowball);
+    const entity = pickEntity(from, segment, gifts, snowmen, voxel ? voxel.distance : length);
+    if (entity) return { projectile: next, impact: { kind: 'entity', entity }, expired: false };
+    if (voxel) return { projectile: next, impact: { kind: 'voxel', hit: voxel }, expired: false };
+    return { projectile: next, impact: null, expired: next.age > MAX_FLIGHT || to[1] < grid.minY * VOXEL_SIZE };
+};
+
+// Top-of-the-snow voxels with open air above can be scooped into a snowball
+export const isScoopable = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    return getMaterial(grid, x, y, z) === 'snow' && !isSolid(grid, x, y + 1, z);
+};
@@ -0,0 +1,146 @@
+// --- Time of Day ---
+// A clock that runs through the day and the lighting each hour calls for. The lighting is set
+// at a few keyframes (night, sunrise, day, sunset, evening) and blended in between.
+
+export interface Lighting {
+    background: string;
+    fog: string;
+    fogNear: number;
+    fogFar: number;
+    sky: string; // Hemisphere light, from above
+    ground: string; // Hemisphere light, from below
+    ambient: number;
+    sun: string; // Directional light colour (moonlight at night)
+    sunIntensity: number;
+    stars: number; // Opacity
+    bloomThreshold: number; // Daylight sets it high enough that nothing blooms
+}
+
+export interface TimeOfDaySettings {
+    start: number; // Hour the clock starts at, 0..24
+    hoursPerSecond: number; // 0 pins the clock
+}
+
+export const DAY_LENGTH_MINUTES = 24; // Real minutes per in-game day unless ?dayLength= says otherwise
+export const LAMPS_ON_HOUR = 17.75;
+export const LAMPS_OFF_HOUR = 6.5;
+export const SUNRISE_HOUR = 6; // The sun is up from here to 12 hours later; the moon the rest
+
+const NIGHT: Lighting = {
+    background: '#150a15', fog: '#150a15', fogNear: 30, fogFar: 90,
+    sky: '#2a1a3a', ground: '#110500', ambient: 0.2,
+    sun: '#d0e0ff', sunIntensity: 0.4,
+    stars: 1, bloomThreshold: 1,
+};
+const SUNRISE: Lighting = {
+    background: '#ffcc99', fog: '#ffcc99', fogNear: 20, fogFar: 80, // Peach
+    sky: '#ffddaa', ground: '#443322', ambient: 0.5,
+    sun: '#ffaa00', sunIntensity: 0.6,
+    stars: 0, bloomThreshold: 2,
+};
+const DAY: Lighting = {
+    background: '#87ceeb', fog: '#aaccff', fogNear: 40, fogFar: 120, // Sky blue
+    sky: '#ffffff', ground: '#ccccff', ambient: 0.7,
+    sun: '#ffffff', sunIntensity: 1.2,
+    stars: 0, bloomThreshold: 3,
+};
+const SUNSET: Lighting = {
+    background: '#ffccb3', fog: '#ffccb3', fogNear: 20, fogFar: 90, // Soft peach
+    sky: '#eec0c8', ground: '#5e4b5e', ambient: 0.6, // Soft pink over deep warm purple
+    sun: '#ffeebb', sunIntensity: 0.9, // Golden
+    stars: 0.2, bloomThreshold: 1.5,
+};
+const EVENING: Lighting = {
+    background: '#2c1e31', fog: '#2c1e31', fogNear: 30, fogFar: 90, // Deep purple
+    sky: '#4a3a5a', ground: '#221122', ambient: 0.3,
+    sun: '#aaaaff', sunIntensity: 0.3,
+    stars: 0.8, bloomThreshold: 1,
+};
+
+// In hour order; the last one blends into the first across midnight
+const KEYFRAMES: { hour: number, lighting: Lighting }[] = [
+    { hour: 4.5, lighting: NIGHT },
+    { hour: 6.5, lighting: SUNRISE },
+    { hour: 9, lighting: DAY },
+    { hour: 15.5, lighting: DAY },
+    { hour: 17, lighting: SUNSET },
+    { hour: 18.5, lighting: EVENING },
+    { hour: 20.5, lighting: NIGHT },
+];
+
+export const wrapHour = (hour: number) => ((hour % 24) + 24) % 24;
+
+const mixNumber = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Blends two '#rrggbb' colours
+const mixColor = (a: string, b: string, t: number): string => {
+    const from = parseInt(a.slice(1), 16);
+    const to = parseInt(b.slice(1), 16);
+    const channel = (shift: number) => Math.round(mixNumber((from >> shift) & 0xff, (to >> shift) & 0xff, t));
+    return `#${((channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).padStart(6, '0')}`;
+};
+
+export const lightingAt = (hour: number): Lighting => {
+    const h = wrapHour(hour);
+    const nextIndex = KEYFRAMES.findIndex(k => k.hour > h);
+    const next = KEYFRAMES[nextIndex === -1 ? 0 : nextIndex];
+    const prev = KEYFRAMES[nextIndex <= 0 ? KEYFRAMES.length - 1 : nextIndex - 1];
+    const span = wrapHour(next.hour - prev.hour) || 24;
+    const t = wrapHour(h - prev.hour) / span;
+    const a = prev.lighting;
+    const b = next.lighting;
+    return {
+        background: mixColor(a.background, b.background, t),
+        fog: mixColor(a.fog, b.fog, t),
+        fogNear: mixNumber(a.fogNear, b.fogNear, t),
+        fogFar: mixNumber(a.fogFar, b.fogFar, t),
+        sky: mixColor(a.sky, b.sky, t),
+        ground: mixColor(a.ground, b.ground, t),
+        ambient: mixNumber(a.ambient, b.ambient, t),
+        sun: mixColor(a.sun, b.sun, t),
+        sunIntensity: mixNumber(a.sunIntensity, b.sunIntensity, t),
+        stars: mixNumber(a.stars, b.stars, t),
+        bloomThreshold: mixNumber(a.bloomThreshold, b.bloomThreshold, t),
+    };
+};
+
+// Unit direction towards the sun: rises in the east (+X), highest at noon, sets in the west.
+// The moon is always opposite.
+export const sunDirection = (hour: number): [number, number, number] => {
+    const angle = (wrapHour(hour - SUNRISE_HOUR) / 12) * Math.PI;
+    const tilt = 0.35; // Off the zenith towards the south, so noon shadows still have a direction
+    return [Math.cos(angle), Math.sin(angle) * Math.cos(tilt), Math.sin(angle) * Math.sin(tilt)];
+};
+
+export const lampsOnAt = (hour: number) => {
+    const h = wrapHour(hour);
+    return h >= LAMPS_ON_HOUR || h < LAMPS_OFF_HOUR;
+};
+
+// "18:30" or "18.5" -> 18.5
+export const parseHour = (value: string | null): number | null => {
+    if (!value) return null;
+    const match = /^(\d{1,2})(?::(\d{2}))?$/.exec(value.trim());
+    const hour = match ? Number(match[1]) + Number(match[2] ?? 0) / 60 : Number(value);
+    return Number.isFinite(hour) && hour >= 0 && hour <= 24 ? wrapHour(hour) : null;
+};
+
+// 18.5 -> "18:30"
+export const formatHour = (hour: number): string => {
+    const minutes = Math.floor(wrapHour(hour) * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+// ?time=18:30 pins the clock; otherwise it starts at the local time and runs a day every
+// ?dayLength= real minutes
+export const getUrlTimeOfDay = (): TimeOfDaySettings => {
+    const now = new Date();
+    const local = now.getHours() + now.getMinutes() / 60;
+    if (typeof window === 'undefined') return { start: local, hoursPerSecond: 24 / (DAY_LENGTH_MINUTES * 60) };
+    const params = new URLSearchParams(window.location.search);
+    const pinned = parseHour(params.get('time'));
+    if (pinned !== null) return { start: pinned, hoursPerSecond: 0 };
+    const dayLength = Number(params.get('dayLength'));
+    const minutes = Number.isFinite(dayLength) && dayLength > 0 ? dayLength : DAY_LENGTH_MINUTES;
+    return { start: local, hoursPerSecond: 24 / (minutes * 60) };
+};
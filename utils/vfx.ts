@@ -0,0 +1,59 @@
+// --- Visual Effects ---
+// Fire-and-forget particle effects. Gameplay code calls `spawnEffect` with a kind and a
+// position; the scene's effects layer (components/Effects) turns it into pooled particles.
+
+import { Vector3Tuple } from '../types';
+
+export type EffectKind = 'crumbs' | 'snowBurst' | 'sparkle' | 'iceShards' | 'smoke';
+
+export interface EffectPreset {
+    count: number; // Particles per spawn
+    speed: [number, number]; // World units per second
+    lift: number; // Extra upward speed added to every particle
+    gravity: number; // Negative floats upwards
+    drag: number; // Fraction of speed lost per second
+    life: [number, number]; // Seconds
+    size: [number, number]; // Cube edge in world units, shrinking to nothing over the life
+    colors: number[];
+    spread: number; // Random offset from the spawn point
+}
+
+export const EFFECT_PRESETS: Record<EffectKind, EffectPreset> = {
+    crumbs: {
+        count: 10, speed: [0.5, 1.5], lift: 1.5, gravity: 9, drag: 0,
+        life: [0.6, 0.7], size: [0.12, 0.12], colors: [0xffffff], spread: 0,
+    },
+    snowBurst: {
+        count: 40, speed: [2, 6], lift: 3, gravity: 12, drag: 0.5,
+        life: [0.6, 1.2], size: [0.15, 0.35], colors: [0xffffff, 0xeef6ff, 0xdde8f0], spread: 0.6,
+    },
+    sparkle: {
+        count: 24, speed: [0.5, 2.5], lift: 1.5, gravity: -1, drag: 1.5,
+        life: [0.5, 1.0], size: [0.05, 0.12], colors: [0xffe066, 0xfff3b0, 0xffffff, 0xff9ff3], spread: 0.3,
+    },
+    iceShards: {
+        count: 60, speed: [3, 8], lift: 4, gravity: 16, drag: 0.3,
+        life: [0.8, 1.6], size: [0.1, 0.3], colors: [0xaaddff, 0xcceeff, 0xffffff], spread: 2,
+    },
+    smoke: {
+        count: 1, speed: [0.1, 0.4], lift: 1.2, gravity: -0.2, drag: 0.2,
+        life: [2.5, 4], size: [0.3, 0.6], colors: [0x999999, 0xaaaaaa, 0xbbbbbb], spread: 0.15,
+    },
+};
+
+// `color` replaces the preset's colours (e.g. crumbs take the colour of the dug voxel)
+type EffectListener = (kind: EffectKind, position: Vector3Tuple, color?: number) => void;
+
+const listeners = new Set<EffectListener>();
+
+export const spawnEffect = (kind: EffectKind, position: Vector3Tuple, color?: number) => {
+    listeners.forEach(listener => listener(kind, position, color));
+};
+
+// Returns an unsubscribe function
+export const onEffect = (listener: EffectListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,107 @@
+// --- Dense Voxel Grid ---
+// Flat typed-array storage for the generated island. Cheap to query per voxel and
+// easy to hand between systems (terrain queries, meshing, workers).
+
+export const MATERIALS = [
+    'air',
+    'snow',
+    'path',
+    'ice',
+    'water',
+    'dirt',
+    'stone',
+    'floor',
+    'wall',
+    'roof',
+    'wood',
+    'foliage',
+    'metal',
+    'light',
+    'smoke',
+] as const;
+
+export type VoxelMaterial = typeof MATERIALS[number];
+
+export const materialId = (material: VoxelMaterial): number => MATERIALS.indexOf(material);
+
+export interface VoxelGrid {
+    minX: number;
+    minY: number;
+    minZ: number;
+    sizeX: number;
+    sizeY: number;
+    sizeZ: number;
+    colors: Uint8Array; // 0 = empty, otherwise 1 + index into palette
+    materials: Uint8Array; // index into MATERIALS
+    palette: number[];
+}
+
+export const createVoxelGrid = (radius: number, minY: number, maxY: number): VoxelGrid => {
+    const sizeX = radius * 2 + 1;
+    const sizeZ = radius * 2 + 1;
+    const sizeY = maxY - minY + 1;
+    return {
+        minX: -radius,
+        minY,
+        minZ: -radius,
+        sizeX,
+        sizeY,
+        sizeZ,
+        colors: new Uint8Array(sizeX * sizeY * sizeZ),
+        materials: new Uint8Array(sizeX * sizeY * sizeZ),
+        palette: [],
+    };
+};
+
+export const inGrid = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    return x >= grid.minX && x < grid.minX + grid.sizeX
+        && y >= grid.minY && y < grid.minY + grid.sizeY
+        && z >= grid.minZ && z < grid.minZ + grid.sizeZ;
+};
+
+// Layout is x-major, then z, then y so a column is contiguous in memory
+export const voxelIndex = (grid: VoxelGrid, x: number, y: number, z: number): number => {
+    return ((x - grid.minX) * grid.sizeZ + (z - grid.minZ)) * grid.sizeY + (y - grid.minY);
+};
+
+export const isSolid = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    if (!inGrid(grid, x, y, z)) return false;
+    return grid.colors[voxelIndex(grid, x, y, z)] !== 0;
+};
+
+export const getMaterial = (grid: VoxelGrid, x: number, y: number, z: number): VoxelMaterial => {
+    if (!inGrid(grid, x, y, z)) return 'air';
+    const i = voxelIndex(grid, x, y, z);
+    return grid.colors[i] === 0 ? 'air' : MATERIALS[grid.materials[i]];
+};
+
+export const getColor = (grid: VoxelGrid, x: number, y: number, z: number): number | null => {
+    if (!inGrid(grid, x, y, z)) return null;
+    const c = grid.colors[voxelIndex(grid, x, y, z)];
+    return c === 0 ? null : grid.palette[c - 1];
+};
+
+// Returns false if the voxel is out of bounds or already filled (first write wins)
+export const setVoxel = (grid: VoxelGrid, x: number, y: number, z: number, color: number, material: VoxelMaterial): boolean => {
+    if (!inGrid(grid, x, y, z)) return false;
+    const i = voxelIndex(grid, x, y, z);
+    if (grid.colors[i] !== 0) return false;
+
+    let paletteIndex = grid.palette.indexOf(color);
+    if (paletteIndex === -1) {
+        paletteIndex = grid.palette.length;
+        grid.palette.push(color);
+    }
+    grid.colors[i] = paletteIndex + 1;
+    grid.materials[i] = materialId(material);
+    return true;
+};
+
+export const clearVoxel = (grid: VoxelGrid, x: number, y: number, z: number): boolean => {
+    if (!inGrid(grid, x, y, z)) return false;
+    const i = voxelIndex(grid, x, y, z);
+    if (grid.colors[i] === 0) return false;
+    grid.colors[i] = 0;
+    grid.materials[i] = 0;
+    return true;
+};
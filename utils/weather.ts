@@ -0,0 +1,107 @@
+// --- Weather ---
+// The sky moves between clear, light snow, heavy snow and blizzard, a step at a time, easing
+// from one to the next. Each kind sets how much snow falls, the wind, how far the fog lets
+// you see and how close things have to be before you can pick them out.
+
+import { PICK_DISTANCE } from './raycast';
+
+export type WeatherKind = 'clear' | 'lightSnow' | 'heavySnow' | 'blizzard';
+
+export interface WeatherInfo {
+    label: string;
+    icon: string;
+    density: number; // Share of the snowflakes falling, 0..1
+    wind: number; // World units per second
+    fall: number; // Flake fall speed, world units per second
+    fogScale: number; // Multiplies the time of day's fog distances
+    visibility: number; // Share of the pick distance lost, 0..1
+}
+
+// In order of severity; the weather only ever moves one step along this list
+export const WEATHER_ORDER: WeatherKind[] = ['clear', 'lightSnow', 'heavySnow', 'blizzard'];
+
+export const WEATHER: Record<WeatherKind, WeatherInfo> = {
+    clear: { label: 'Clear', icon: '☀️', density: 0, wind: 0.5, fall: 1, fogScale: 1, visibility: 0 },
+    lightSnow: { label: 'Light snow', icon: '🌨️', density: 0.3, wind: 1.5, fall: 1.5, fogScale: 0.9, visibility: 0 },
+    heavySnow: { label: 'Heavy snow', icon: '❄️', density: 0.7, wind: 3, fall: 2.5, fogScale: 0.65, visibility: 0.3 },
+    blizzard: { label: 'Blizzard', icon: '🌬️', density: 1, wind: 9, fall: 3.5, fogScale: 0.4, visibility: 0.6 },
+};
+
+export const WEATHER_HOLD_SECONDS: [number, number] = [60, 180]; // How long a kind lasts, min..max
+export const WEATHER_TRANSITION_SECONDS = 20;
+
+export interface WeatherSettings {
+    start: WeatherKind;
+    changes: boolean; // False pins the weather
+}
+
+// The blend of the current and next kind right now
+export interface WeatherConditions {
+    density: number;
+    wind: [number, number]; // World units per second along X and Z
+    fall: number;
+    fogScale: number;
+    visibility: number;
+}
+
+export interface WeatherController {
+    step: (dt: number) => boolean; // Advances the clock; true when a new kind sets in
+    kind: () => WeatherKind; // The one settled in or being moved towards
+    conditions: () => WeatherConditions;
+}
+
+const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// `random` should be a stream derived from the hunt's seed, e.g. createRng(deriveSeed(seed, 'weather'))
+export const createWeather = ({ start, changes }: WeatherSettings, random: () => number): WeatherController => {
+    let from = start;
+    let to = start;
+    let heading = random() * Math.PI * 2; // Wind direction the `to` kind blows in
+    let fromHeading = heading;
+    let elapsed = WEATHER_TRANSITION_SECONDS; // Into the current spell; the transition is its first part
+    const hold = () => mix(WEATHER_HOLD_SECONDS[0], WEATHER_HOLD_SECONDS[1], random());
+    let until = hold();
+
+    return {
+        step: dt => {
+            elapsed += dt;
+            if (!changes || elapsed < until) return false;
+            // One step milder or harsher, turning back at either end
+            const index = WEATHER_ORDER.indexOf(to);
+            const harsher = index === 0 || (index < WEATHER_ORDER.length - 1 && random() < 0.5);
+            from = to;
+            to = WEATHER_ORDER[index + (harsher ? 1 : -1)];
+            fromHeading = heading;
+            heading += (random() - 0.5) * Math.PI; // The wind swings round, but not all the way
+            elapsed = 0;
+            until = WEATHER_TRANSITION_SECONDS + hold();
+            return true;
+        },
+        kind: () => to,
+        conditions: () => {
+            const t = Math.min(1, elapsed / WEATHER_TRANSITION_SECONDS);
+            const a = WEATHER[from];
+            const b = WEATHER[to];
+            const wind = mix(a.wind, b.wind, t);
+            const angle = mix(fromHeading, heading, t);
+            return {
+                density: mix(a.density, b.density, t),
+                wind: [Math.cos(angle) * wind, Math.sin(angle) * wind],
+                fall: mix(a.fall, b.fall, t),
+                fogScale: mix(a.fogScale, b.fogScale, t),
+                visibility: mix(a.visibility, b.visibility, t),
+            };
+        },
+    };
+};
+
+// How far away a click can still pick something out in these conditions
+export const pickReach = (conditions: WeatherConditions) => PICK_DISTANCE * (1 - conditions.visibility);
+
+// ?weather=blizzard pins it; otherwise a hunt starts under light snow and the weather wanders
+export const getUrlWeather = (): WeatherSettings => {
+    const param = typeof window === 'undefined' ? null : new URLSearchParams(window.location.search).get('weather');
+    return WEATHER_ORDER.includes(param as WeatherKind)
+        ? { start: param as WeatherKind, changes: false }
+        : { start: 'lightSnow', changes: true };
+};
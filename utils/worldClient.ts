@@ -0,0 +1,55 @@
+// --- World Client ---
+// Main-thread side of the world worker: one worker per build, terminated when done
+// or when the build is superseded (new seed, level edit).
+
+import { LevelDefinition } from '../types';
+import { GeneratedWorld } from './worldGen';
+import { WorldChunk } from './meshing';
+import type { WorldRequest, WorldResponse } from './worldWorker';
+
+export interface WorldBuild {
+    world: GeneratedWorld;
+    chunks: WorldChunk[];
+}
+
+export interface WorldJob {
+    promise: Promise<WorldBuild>;
+    cancel: () => void;
+}
+
+export const buildWorld = (seed: number, level: LevelDefinition, onProgress?: (fraction: number) => void): WorldJob => {
+    const worker = new Worker(new URL('./worldWorker.ts', import.meta.url), { type: 'module' });
+    let settled = false;
+
+    const promise = new Promise<WorldBuild>((resolve, reject) => {
+        worker.onmessage = (e: MessageEvent<WorldResponse>) => {
+            const message = e.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.fraction);
+                return;
+            }
+
+            settled = true;
+            worker.terminate();
+            if (message.type === 'done') resolve({ world: message.world, chunks: message.chunks });
+            else reject(new Error(`World generation failed: ${message.message}`));
+        };
+
+        worker.onerror = (e: ErrorEvent) => {
+            settled = true;
+            worker.terminate();
+            reject(new Error(`World generation failed: ${e.message}`));
+        };
+
+        const request: WorldRequest = { seed, level };
+        worker.postMessage(request);
+    });
+
+    // A cancelled job never settles; the caller has already moved on
+    const cancel = () => {
+        if (!settled) worker.terminate();
+        settled = true;
+    };
+
+    return { promise, cancel };
+};
@@ -0,0 +1,419 @@
+import { LevelDefinition } from '../types';
+import { createRng, deriveSeed } from './random';
+import { VoxelGrid, VoxelMaterial, createVoxelGrid, setVoxel } from './voxelGrid';
+
+// --- Configuration ---
+export const VOXEL_SIZE = 0.25;
+export const WORLD_RADIUS = 90;
+const GRID_MIN_Y = -64;
+const GRID_MAX_Y = 127;
+
+// --- Palette ---
+export const PALETTE = {
+    // Environment
+    SNOW: 0xffffff,
+    SNOW_SHADOW: 0xe6e6fa,
+    DIRT: 0x4a3c31,
+    STONE: 0x666666,
+    PATH: 0xcabba0,
+    ICE: 0xa5f2f3, // Default Ice Surface
+    ICE_DEEP: 0x224466, // Dark Clear Ice
+    ICE_CRACK: 0xffffff, // White Crushed Ice
+    WATER: 0x0a1a2a, // Very Dark Abyss Water
+    
+    // Buildings (Brick & Wood)
+    BRICK_MAIN: 0xb94e48, 
+    BRICK_DARK: 0x8f332d, 
+    ROOF_SLATE: 0x2d3436, 
+    WOOD_TRUNK: 0x2e1e14,
+    WOOD_PLANKS: 0x5d4037,
+    DOOR_WOOD: 0x4a3222, 
+    DOOR_HANDLE: 0xffd700, 
+    
+    // Tree & Foliage
+    LEAF_DARK: 0x0f2e13,
+    LEAF_LIGHT: 0x1f4523,
+    LEAF_SNOWY: 0x5c7a60,
+    
+    // Decor
+    DECOR_RED: 0xe60026,
+    DECOR_GOLD: 0xffd700,
+    DECOR_SILVER: 0xe0e0e0,
+    DECOR_ROYAL_BLUE: 0x0047ab,
+    DECOR_PURPLE: 0x800080,
+    DECOR_PINK: 0xff1493,
+    
+    // Lights
+    LIGHT_STRING: 0xffaa00,
+    LIGHT_WARM: 0xffcf48,
+    STAR_CORE: 0xffcc00,
+    STAR_GLOW: 0xff9900,
+    LAMP_WARM: 0xffaa44, 
+    LAMP_POST: 0x1a1a1a, 
+};
+
+// --- Helper Types ---
+export type Point3 = { x: number, y: number, z: number };
+export type DoorData = { position: [number, number, number], rotation: number };
+
+// Door panel size in voxels; the wall gap left for it matches
+export const DOOR_SIZE = { width: 4, height: 7 };
+
+// Voxel rows of the pond: a sheet of ice over an air gap, with water at the bottom
+export const POND_ICE_Y = -2;
+export const POND_WATER_Y = -6;
+
+export interface GeneratedWorld {
+    seed: number;
+    level: LevelDefinition;
+    grid: VoxelGrid; // Source of truth for terrain queries and meshing
+    lampCoords: Point3[];
+    doors: DoorData[];
+    chimneys: Point3[]; // World position just above each chimney stack, where its smoke rises from
+}
+
+// --- Procedural Generation Logic ---
+// `onProgress` receives the completed fraction (0-1) as the island is built
+export const generateWorld = (seed: number, level: LevelDefinition, onProgress?: (fraction: number) => void): GeneratedWorld => {
+    const rng = createRng(deriveSeed(seed, 'world'));
+    const grid = createVoxelGrid(WORLD_RADIUS, GRID_MIN_Y, GRID_MAX_Y);
+    const lampCoords: Point3[] = []; 
+    const doors: DoorData[] = []; 
+    const chimneys: Point3[] = [];
+    const pathHeightMap = new Map<string, number>();
+    
+    // Material decides the render layer: lights glow, ice & water get their own meshes
+    const add = (x: number, y: number, z: number, color: number, material: VoxelMaterial) => {
+        setVoxel(grid, Math.round(x), Math.round(y), Math.round(z), color, material);
+    };
+
+    // --- Path Generation Helper ---
+    const createPath = (x1: number, z1: number, x2: number, z2: number, widthOverride: number = 1.5) => {
+        const dist = Math.sqrt((x2-x1)**2 + (z2-z1)**2);
+        const steps = Math.ceil(dist * 2); 
+        
+        for(let i=0; i<=steps; i++) {
+            const t = i/steps;
+            const cx = x1 + (x2-x1)*t;
+            const cz = z1 + (z2-z1)*t;
+            
+            for(let ox=-widthOverride; ox<=widthOverride; ox+=0.5) {
+                for(let oz=-widthOverride; oz<=widthOverride; oz+=0.5) {
+                    const px = Math.round(cx + ox);
+                    const pz = Math.round(cz + oz);
+                    pathHeightMap.set(`${px},${pz}`, 0); 
+                }
+            }
+        }
+
+        if (dist > 10) {
+            const lampSpacing = 25; 
+            const numLamps = Math.floor(dist / lampSpacing);
+            for(let i=1; i<numLamps; i++) {
+                const t = i/numLamps;
+                const lx = x1 + (x2-x1)*t;
+                const lz = z1 + (z2-z1)*t;
+                const offset = 2.5; 
+                const side = (i % 2 === 0) ? 1 : -1;
+                const lampX = Math.round(lx + (rng() * 0.5)); 
+                const lampZ = Math.round(lz + side * offset);
+                buildLamp(lampX, 0, lampZ);
+            }
+        }
+    };
+
+    const buildLamp = (x: number, y: number, z: number) => {
+        const poleHeight = 9;
+        for(let h=0; h<poleHeight; h++) add(x, y+h, z, PALETTE.LAMP_POST, 'metal');
+        const armY = y + poleHeight - 1;
+        add(x, armY, z, PALETTE.LAMP_POST, 'metal');
+        add(x, armY+0.5, z, PALETTE.LAMP_POST, 'metal'); 
+        const lightY = armY - 0.5;
+        add(x, lightY, z+0.6, PALETTE.LAMP_POST, 'metal'); 
+        add(x, lightY, z-0.6, PALETTE.LAMP_POST, 'metal');
+        add(x+0.6, lightY, z, PALETTE.LAMP_POST, 'metal');
+        add(x-0.6, lightY, z, PALETTE.LAMP_POST, 'metal');
+        add(x, lightY, z, PALETTE.LAMP_WARM, 'light');
+        lampCoords.push({ x: x * VOXEL_SIZE, y: (lightY - 1) * VOXEL_SIZE, z: z * VOXEL_SIZE });
+    };
+
+    // --- Houses ---
+    const buildHouse = (cx: number, cz: number, width: number, depth: number, height: number, rotation: number = 0) => {
+        const rotate = (x: number, z: number) => {
+            if (rotation === 0) return { x: cx + x, z: cz + z };
+            return { x: cx - z, z: cz + x };
+        };
+
+        const groundY = 0;
+        let doorRecorded = false;
+
+        for (let y = 0; y < height + 8; y++) {
+            for (let x = -width/2; x <= width/2; x++) {
+                for (let z = -depth/2; z <= depth/2; z++) {
+                    const pos = rotate(x, z);
+                    
+                    if (y < height) {
+                        // Create walls (shell only)
+                        if (Math.abs(x) >= width/2 - 1 || Math.abs(z) >= depth/2 - 1) {
+                            const isFront = Math.abs(z - depth/2) < 1.5;
+                            const isDoorX = x >= -2 && x <= 1;
+                            const isDoorY = y < 7;
+                            
+                            // Create Door Gap
+                            if (isFront && isDoorX && isDoorY) {
+                                if (!doorRecorded && x === -2 && y === 0) {
+                                    const hingePos = rotate(-2.5, depth/2); 
+                                    const doorRot = rotation === 0 ? 0 : -Math.PI / 2;
+                                    doors.push({
+                                        position: [hingePos.x * VOXEL_SIZE, groundY * VOXEL_SIZE, hingePos.z * VOXEL_SIZE],
+                                        rotation: doorRot
+                                    });
+                                    doorRecorded = true;
+                                }
+                                continue; 
+                            }
+
+                            const isDarkBrick = (Math.abs(x*3 + y*2 + z) % 7 < 2) || rng() > 0.8;
+                            let col = isDarkBrick ? PALETTE.BRICK_DARK : PALETTE.BRICK_MAIN;
+                            const isWindowH = (y > 3 && y < 7) || (y > height - 6 && y < height - 2);
+                            const isWindowX = Math.abs(x) < 2 || (width > 10 && Math.abs(Math.abs(x) - width/4) < 2);
+                            if (isFront && isWindowH && isWindowX) {
+                                add(pos.x, groundY + y, pos.z, PALETTE.LIGHT_WARM, 'light');
+                            } else {
+                                add(pos.x, groundY + y, pos.z, col, 'wall');
+                            }
+                        } else if (y === 0) {
+                            // Floor
+                            add(pos.x, groundY + y, pos.z, PALETTE.WOOD_PLANKS, 'floor');
+                        }
+                    } else {
+                        // Roof
+                        const roofY = y - height;
+                        const roofScale = 1 - (roofY / 8); 
+                        if (Math.abs(x) <= (width/2 + 1) * roofScale && Math.abs(z) <= (depth/2 + 1)) {
+                            const isSnowTop = roofY > 6 || rng() > 0.7;
+                            add(pos.x, groundY + y, pos.z, isSnowTop ? PALETTE.SNOW : PALETTE.ROOF_SLATE, 'roof');
+                        }
+                    }
+                }
+            }
+        }
+        
+        // Chimney
+        const chimneyX = width/3;
+        const chimneyZ = 0;
+        const chimneyTop = rotate(chimneyX, chimneyZ);
+        chimneys.push({ x: chimneyTop.x * VOXEL_SIZE, y: (groundY + height + 9) * VOXEL_SIZE, z: chimneyTop.z * VOXEL_SIZE });
+        for (let y = height/2; y < height + 10; y++) {
+            for(let cx_ = -1; cx_<=1; cx_++) {
+                for(let cz_ = -1; cz_<=1; cz_++) {
+                    const pos = rotate(chimneyX + cx_, chimneyZ + cz_);
+                    const isSmoke = y > height + 8;
+                    if (isSmoke) {
+                        if (rng() > 0.5 && cx_ === 0 && cz_ === 0) 
+                             add(pos.x, groundY + y + rng()*2, pos.z, 0xaaaaaa, 'smoke'); 
+                    } else {
+                         add(pos.x, groundY + y, pos.z, PALETTE.BRICK_DARK, 'wall');
+                    }
+                }
+            }
+        }
+    };
+
+    const { buildings, paths, pond, tree } = level;
+
+    // Level paths, plus a wide doorstep in front of every house
+    paths.forEach(p => createPath(p.from[0], p.from[1], p.to[0], p.to[1], p.width));
+    buildings.forEach(b => {
+        if (b.rotation === 0) {
+            const doorZ = b.z + b.depth/2;
+            createPath(b.x, doorZ, b.x, doorZ + 4, 3); 
+        } else {
+            const doorX = b.x - b.depth/2;
+            createPath(doorX, b.z, doorX - 4, b.z, 3);
+        }
+    });
+
+    // --- GENERATE HOUSES ---
+    buildings.forEach(b => {
+        buildHouse(b.x, b.z, b.width, b.depth, b.height, b.rotation);
+    });
+    onProgress?.(0.1);
+
+    // --- Terrain Generation ---
+    const pondCenter = { x: pond.x, z: pond.z };
+    const pondRadius = pond.radius;
+    const ISLAND_DEPTH_CENTER = 45; // Increased depth to accommodate deep pond
+
+    for (let x = -WORLD_RADIUS; x <= WORLD_RADIUS; x++) {
+        onProgress?.(0.1 + 0.7 * (x + WORLD_RADIUS) / (WORLD_RADIUS * 2));
+        for (let z = -WORLD_RADIUS; z <= WORLD_RADIUS; z++) {
+            const distSq = x * x + z * z;
+            const dist = Math.sqrt(distSq);
+            if (dist > WORLD_RADIUS) continue;
+            
+            const pathKey = `${Math.round(x)},${Math.round(z)}`;
+            const isPath = pathHeightMap.has(pathKey);
+            
+            let surfaceY = 0;
+            let surfaceColor = PALETTE.SNOW;
+            let surfaceMaterial: VoxelMaterial = 'snow';
+            const distToPond = Math.sqrt((x - pondCenter.x)**2 + (z - pondCenter.z)**2);
+            const isPond = distToPond < pondRadius;
+            let isIceSurface = false;
+
+            // POND LOGIC
+            if (isPond) {
+                // If we are strictly inside the pond area
+                if (distToPond < pondRadius - 2) {
+                    isIceSurface = true;
+                    surfaceY = POND_ICE_Y;
+                } else {
+                    // Pond Rim
+                    surfaceY = -1; 
+                    surfaceColor = PALETTE.DIRT;
+                    surfaceMaterial = 'dirt';
+                }
+            } else if (isPath) {
+                surfaceY = 0;
+                surfaceColor = PALETTE.PATH;
+                surfaceMaterial = 'path';
+            } else {
+                const terrainNoise = Math.sin(x * 0.05) * Math.cos(z * 0.05) * 6 + Math.sin(x*0.1 + z*0.2)*2;
+                surfaceY = Math.floor(terrainNoise);
+                if (rng() > 0.7 && surfaceY > 2) {
+                    surfaceColor = PALETTE.SNOW_SHADOW;
+                }
+            }
+
+            const d = dist / WORLD_RADIUS;
+            const bottomNoise = Math.sin(x * 0.15) * Math.cos(z * 0.15) * 4 + Math.cos(x*0.3)*2;
+            const structuralDepth = ISLAND_DEPTH_CENTER * (1 - Math.pow(d, 1.8));
+            const totalDepth = Math.max(5, structuralDepth + bottomNoise);
+            const bottomY = Math.floor(surfaceY - totalDepth);
+
+            for (let y = bottomY; y <= surfaceY; y++) {
+                const depthFromSurface = surfaceY - y;
+                const heightFromBottom = y - bottomY;
+                
+                // --- POND / PIT LOGIC ---
+                // If this (x,z) column is part of the ice surface
+                if (isIceSurface) {
+                    // 1. Ice Layer (Top)
+                    if (y === POND_ICE_Y) {
+                         add(x, y, z, PALETTE.ICE, 'ice');
+                         continue;
+                    }
+                    // 2. Air Gap (Between Ice and Water) - Skip generation
+                    if (y < POND_ICE_Y && y > POND_WATER_Y) {
+                        continue; 
+                    }
+                    // 3. Water Layer (Bottom)
+                    if (y === POND_WATER_Y) {
+                        add(x, y, z, PALETTE.WATER, 'water');
+                        continue;
+                    }
+                    // 4. Below Water (Lake Bed)
+                    if (y < POND_WATER_Y) {
+                        // Just standard stone/dirt bottom
+                        if (y === POND_WATER_Y - 1) add(x, y, z, PALETTE.DIRT, 'dirt');
+                        else if (heightFromBottom < 2) add(x, y, z, PALETTE.STONE, 'stone');
+                    }
+                    continue; // Skip the rest of the loop for this column
+                }
+
+                // --- NORMAL TERRAIN LOGIC ---
+                const isCrust = depthFromSurface <= 7; 
+                const isBottom = heightFromBottom <= 2;
+
+                if (isCrust || isBottom) {
+                    let color = PALETTE.STONE;
+                    let material: VoxelMaterial = 'stone';
+                    if (y === surfaceY) {
+                         color = surfaceColor;
+                         material = surfaceMaterial;
+                    } else if (depthFromSurface <= 2 && !isPath) {
+                        color = PALETTE.DIRT;
+                        material = 'dirt';
+                    } else {
+                        color = PALETTE.STONE;
+                        if (rng() > 0.85) { color = PALETTE.DIRT; material = 'dirt'; }
+                    }
+                    add(x, y, z, color, material);
+                }
+            }
+        }
+    }
+
+    // --- Tree & Decor ---
+    onProgress?.(0.8);
+    const treeBaseY = 0;
+    const treeHeight = tree.height;
+    const maxRadius = tree.radius;
+
+    for (let y = 0; y < treeHeight * 0.25; y++) {
+        const trunkR = Math.max(2, 4 - y * 0.05);
+        for (let x = -trunkR; x <= trunkR; x++) {
+            for (let z = -trunkR; z <= trunkR; z++) {
+                if (x*x + z*z <= trunkR*trunkR) {
+                    add(tree.x + x, treeBaseY + y, tree.z + z, PALETTE.WOOD_TRUNK, 'wood');
+                }
+            }
+        }
+    }
+
+    for (let y = 8; y < treeHeight; y++) {
+        const progress = y / treeHeight;
+        const currentRadius = maxRadius * (1 - progress) + (Math.sin(y * 0.5) * 1.5);
+        
+        for (let x = -Math.ceil(currentRadius); x <= Math.ceil(currentRadius); x++) {
+            for (let z = -Math.ceil(currentRadius); z <= Math.ceil(currentRadius); z++) {
+                const distSq = x*x + z*z;
+                if (distSq <= currentRadius * currentRadius) {
+                    const isSurface = distSq > (currentRadius - 3) * (currentRadius - 3);
+                    if (isSurface || rng() > 0.85) {
+                        const worldY = treeBaseY + y;
+                        let col = PALETTE.LEAF_DARK;
+                        if (rng() > 0.7) col = PALETTE.LEAF_LIGHT;
+                        if (y % 15 > 12) col = PALETTE.LEAF_SNOWY;
+
+                        let isGlowing = false;
+                        if (isSurface) {
+                            const angle = Math.atan2(z, x);
+                            const spiral1 = (angle * 5 + y * 0.25) % (Math.PI * 2);
+                            const spiral2 = (angle * 5 + y * 0.25 + Math.PI) % (Math.PI * 2);
+
+                            if (Math.abs(spiral1) < 0.3 || Math.abs(spiral2) < 0.3) {
+                                col = PALETTE.LIGHT_STRING;
+                                isGlowing = true;
+                            } else if (rng() > 0.93) {
+                                const rand = rng();
+                                if (rand < 0.3) col = PALETTE.DECOR_RED;
+                                else if (rand < 0.45) col = PALETTE.DECOR_GOLD;
+                                else if (rand < 0.6) col = PALETTE.DECOR_ROYAL_BLUE;
+                                else if (rand < 0.75) col = PALETTE.DECOR_PURPLE;
+                                else if (rand < 0.85) col = PALETTE.DECOR_PINK;
+                                else col = PALETTE.DECOR_SILVER;
+                                isGlowing = true; 
+                            }
+                        }
+                        add(tree.x + x, worldY, tree.z + z, col, isGlowing ? 'light' : 'foliage');
+                    }
+                }
+            }
+        }
+    }
+
+    const starY = treeBaseY + treeHeight + 1;
+    for(let x=-2; x<=2; x++) for(let y=-2; y<=2; y++) for(let z=-2; z<=2; z++) {
+        if (Math.abs(x)+Math.abs(y)+Math.abs(z) <= 3) add(tree.x + x, starY+y, tree.z + z, PALETTE.STAR_CORE, 'light');
+    }
+    const directions = [[1,0,0], [-1,0,0], [0,1,0], [0,-1,0], [0,0,1], [0,0,-1], [1,1,0], [-1,1,0], [0,1,1], [0,1,-1]];
+    directions.forEach(dir => {
+        const len = (Math.abs(dir[0])+Math.abs(dir[1])+Math.abs(dir[2])) > 1 ? 5 : 9;
+        for(let i=2; i<len; i++) add(tree.x + dir[0]*i, starY + dir[1]*i, tree.z + dir[2]*i, PALETTE.STAR_GLOW, 'light');
+    });
+
+    onProgress?.(1);
+    return { seed, level, grid, lampCoords, doors, chimneys };
+};
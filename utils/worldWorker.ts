@@ -0,0 +1,51 @@
+// --- World Worker ---
+// Generates and meshes the island off the main thread. Voxel and mesh buffers are
+// transferred back (not copied), so handing over the result is close to free.
+
+import { LevelDefinition } from '../types';
+import { generateWorld, GeneratedWorld } from './worldGen';
+import { meshWorld, WorldChunk } from './meshing';
+
+export interface WorldRequest {
+    seed: number;
+    level: LevelDefinition;
+}
+
+export type WorldResponse =
+    | { type: 'progress', fraction: number }
+    | { type: 'done', world: GeneratedWorld, chunks: WorldChunk[] }
+    | { type: 'error', message: string };
+
+// Generation is the slow half; meshing takes the rest of the bar
+const GENERATION_SHARE = 0.6;
+
+const post = (message: WorldResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+};
+
+self.onmessage = (e: MessageEvent<WorldRequest>) => {
+    const { seed, level } = e.data;
+    let lastPercent = -1;
+
+    // Only post when the visible percentage changes
+    const report = (fraction: number) => {
+        const percent = Math.floor(fraction * 100);
+        if (percent === lastPercent) return;
+        lastPercent = percent;
+        post({ type: 'progress', fraction });
+    };
+
+    try {
+        const world = generateWorld(seed, level, f => report(f * GENERATION_SHARE));
+        const chunks = meshWorld(world.grid, f => report(GENERATION_SHARE + f * (1 - GENERATION_SHARE)));
+
+        const transfer: Transferable[] = [world.grid.colors.buffer, world.grid.materials.buffer];
+        chunks.forEach(chunk => chunk.meshes.forEach(mesh => {
+            transfer.push(mesh.positions.buffer, mesh.normals.buffer, mesh.paletteIndices.buffer, mesh.indices.buffer);
+        }));
+
+        post({ type: 'done', world, chunks }, transfer);
+    } catch (err) {
+        post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+};